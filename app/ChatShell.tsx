@@ -5,9 +5,15 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import Sidebar from '@/components/sidebar/Sidebar';
 import ChatPanel from '@/components/chat/ChatPanel';
 import SettingsDrawer from '@/components/settings/SettingsDrawer';
+import type { CurrentUser } from '@/lib/auth';
 import styles from '@/styles/chat.module.css';
 
-export default function ChatShell() {
+interface ChatShellProps {
+  // Signed-in user with their active workspace (the page redirects to /login without one)
+  user: CurrentUser;
+}
+
+export default function ChatShell({ user }: ChatShellProps) {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -56,6 +62,7 @@ export default function ChatShell() {
   return (
     <div className={styles.container}>
       <Sidebar
+        user={user}
         onNewChat={newDraft}
         onOpenSettings={() => setSettingsOpen(true)}
         selectedConversationId={selectedConversationId}
@@ -68,6 +75,7 @@ export default function ChatShell() {
           onOpenSettings={() => setSettingsOpen(true)}
           onNewChat={newDraft}
           onConversationCreated={handleConversationCreated}
+          readOnly={user.workspace.role === 'viewer'}
         />
       </div>
       <SettingsDrawer
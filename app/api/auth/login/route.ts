@@ -0,0 +1,34 @@
+/**
+ * POST /api/auth/login
+ * Signs in with email and password
+ * Body: { email, password }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, createSession, setSessionCookie } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const user = await authenticate(body.email, body.password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error) {
+    console.error('[Auth] Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * POST /api/auth/logout
+ * Ends the current session
+ */
+
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, endSession } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function POST() {
+  try {
+    await endSession();
+  } catch (error) {
+    // The cookie is cleared either way
+    console.error('[Auth] Error ending session:', error);
+  }
+
+  const response = NextResponse.json({ signedOut: true });
+  clearSessionCookie(response);
+  return response;
+}
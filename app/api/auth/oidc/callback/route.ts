@@ -0,0 +1,37 @@
+/**
+ * GET /api/auth/oidc/callback
+ * Completes an OpenID Connect sign-in, then redirects to the app
+ * (or back to /login?error=... when it fails)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, setSessionCookie, signInWithOidc } from '@/lib/auth';
+import { finishOidcSignIn, OIDC_STATE_COOKIE } from '@/lib/oidc';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const origin = request.nextUrl.origin;
+  let response: NextResponse;
+
+  try {
+    const identity = await finishOidcSignIn(
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value,
+      origin
+    );
+    const user = await signInWithOidc(identity);
+
+    response = NextResponse.redirect(new URL('/', origin));
+    setSessionCookie(response, await createSession(user.id));
+  } catch (error: any) {
+    console.error('[Auth] OIDC sign-in failed:', error);
+    const login = new URL('/login', origin);
+    login.searchParams.set('error', error.message || 'Single sign-on failed');
+    response = NextResponse.redirect(login);
+  }
+
+  // The state is single-use
+  response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+  return response;
+}
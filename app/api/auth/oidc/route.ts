@@ -0,0 +1,32 @@
+/**
+ * GET /api/auth/oidc
+ * Redirects to the OpenID Connect provider to sign in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isProd } from '@/lib/config';
+import { OIDC_STATE_COOKIE, OIDC_STATE_MAX_AGE_SECONDS, startOidcSignIn } from '@/lib/oidc';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { url, cookie } = await startOidcSignIn(request.nextUrl.origin);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, cookie, {
+      httpOnly: true,
+      secure: isProd(),
+      // Sent on the provider's top-level redirect back to the callback
+      sameSite: 'lax',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error: any) {
+    console.error('[Auth] Error starting OIDC sign-in:', error);
+    const login = new URL('/login', request.nextUrl.origin);
+    login.searchParams.set('error', error.message || 'Single sign-on is unavailable');
+    return NextResponse.redirect(login);
+  }
+}
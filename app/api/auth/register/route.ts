@@ -0,0 +1,37 @@
+/**
+ * POST /api/auth/register
+ * Creates an email/password account and signs it in
+ * Body: { email, password, name? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, createSession, registerUser, setSessionCookie } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const user = await registerUser(body.email, body.password, body.name);
+    const response = NextResponse.json({ user }, { status: 201 });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    // Unique email taken by a concurrent registration
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+    console.error('[Auth] Error registering user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * GET /api/auth/session
+ * The signed-in user (null when signed out) with their workspaces, and the
+ * sign-in options the login page offers
+ *
+ * PATCH /api/auth/session
+ * Switch the session to another workspace the user belongs to
+ * Body: { workspaceId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { canSignUp, getCurrentUser, setSessionWorkspace, unauthorized } from '@/lib/auth';
+import { cfg, isOidcEnabled } from '@/lib/config';
+import { getRole, listWorkspaces } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const [user, signUp] = await Promise.all([getCurrentUser(), canSignUp()]);
+
+    return NextResponse.json({
+      user,
+      workspaces: user ? await listWorkspaces(user.id) : [],
+      signUp,
+      oidc: isOidcEnabled() ? { name: cfg.OIDC_NAME } : null,
+    });
+  } catch (error) {
+    console.error('[Auth] Error loading session:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.workspaceId !== 'number') {
+    return NextResponse.json(
+      { error: 'workspaceId must be a number' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getRole(body.workspaceId, user.id);
+    if (!role) {
+      return NextResponse.json(
+        { error: `Workspace with id ${body.workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+
+    await setSessionWorkspace(body.workspaceId);
+    return NextResponse.json({ user: await getCurrentUser() });
+  } catch (error) {
+    console.error('[Auth] Error switching workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * GET /api/chunks/[id]?neighbors=1&documentId=N&chunkIndex=M
+ * A cited chunk with its neighbouring chunks and document metadata
+ * documentId + chunkIndex locate the chunk when the id is gone (re-embedded document)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getChunkContext } from '@/lib/documents';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// Upper bound on neighbours per side
+const MAX_NEIGHBORS = 5;
+
+/**
+ * Parse an optional integer query parameter
+ */
+function intParam(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const chunkId = parseInt(id, 10);
+
+  if (isNaN(chunkId)) {
+    return NextResponse.json(
+      { error: 'Invalid chunk ID' },
+      { status: 400 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const neighbors = Math.min(Math.max(intParam(searchParams.get('neighbors')) ?? 1, 0), MAX_NEIGHBORS);
+
+  try {
+    const context = await getChunkContext(
+      {
+        chunkId,
+        documentId: intParam(searchParams.get('documentId')),
+        chunkIndex: intParam(searchParams.get('chunkIndex')),
+      },
+      user.id,
+      neighbors
+    );
+
+    if (!context) {
+      return NextResponse.json(
+        { error: `Chunk with id ${chunkId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(context);
+  } catch (error) {
+    console.error('[Chunks] Error fetching chunk:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chunk' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,22 @@
 /**
  * GET /api/conversations/[id]/documents - Get documents for a conversation
+ * (with size, chunk count, embedding models and ingest status)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { listDocuments } from '@/lib/documents';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getConversationAccess } from '@/lib/workspaces';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const { id } = await params;
     const conversationId = parseInt(id, 10);
@@ -20,17 +28,20 @@ export async function GET(
       );
     }
 
-    // Fetch documents for this conversation
-    const documents = await prisma.document.findMany({
-      where: { conversationId },
-      select: {
-        id: true,
-      },
-    });
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const documents = await listDocuments(access.workspaceId, conversationId);
 
     return NextResponse.json({
       count: documents.length,
       hasDocuments: documents.length > 0,
+      documents,
     });
   } catch (error) {
     console.error('[Documents] Error fetching documents:', error);
@@ -0,0 +1,69 @@
+/**
+ * GET /api/conversations/[id]/export?format=md|json|pdf
+ * Download a conversation (any member of its workspace):
+ * - md: Markdown with citations as footnotes
+ * - json: messages with their MessageSource rows and document metadata
+ * - pdf: rendered PDF with numbered sources
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { exportFilename, loadConversationExport, parseExportFormat, renderExport } from '@/lib/export';
+import { getConversationAccess } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const conversationId = parseInt(id, 10);
+
+  if (isNaN(conversationId)) {
+    return NextResponse.json(
+      { error: 'Invalid conversation ID' },
+      { status: 400 }
+    );
+  }
+
+  const format = parseExportFormat(request.nextUrl.searchParams.get('format') || 'md');
+  if (!format) {
+    return NextResponse.json(
+      { error: "format must be 'md', 'json' or 'pdf'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    const data = access ? await loadConversationExport(conversationId, access.workspaceId) : null;
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const { body, contentType } = await renderExport(data, format);
+
+    return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${exportFilename(data.conversation, format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Export] Error exporting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    );
+  }
+}
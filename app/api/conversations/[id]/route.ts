@@ -1,17 +1,30 @@
 /**
  * GET /api/conversations/[id] - Get conversation messages
- * DELETE /api/conversations/[id] - Delete conversation with cascade
+ * PATCH /api/conversations/[id] - Rename or re-tag a conversation (editors and owners)
+ * DELETE /api/conversations/[id] - Delete conversation with cascade (editors and owners)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
-import { unlink } from 'fs/promises';
-import { resolveFilePath } from '@/lib/storage';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getConversationPayload } from '@/lib/conversations';
+import { deleteDocument } from '@/lib/documents';
+import { normalizeTags } from '@/lib/scope';
+import { forbidden, getConversationAccess, hasRole, memberOf } from '@/lib/workspaces';
+
+// Tags a conversation can carry
+const MAX_TAGS = 20;
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const { id } = await params;
     const conversationId = parseInt(id, 10);
@@ -23,46 +36,102 @@ export async function GET(
       );
     }
 
-    // Fetch conversation with messages and their sources
-    const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
-      include: {
-        messages: {
-          orderBy: { createdAt: 'asc' },
-          include: {
-            sources: true,
-          },
-        },
-      },
-    });
+    // Fetch conversation with messages and their sources (other workspaces' conversations read as missing)
+    const conversation = await getConversationPayload({ id: conversationId, ...memberOf(user.id) });
 
     if (!conversation) {
-      console.log('[API GET /conversations/:id] Conversation not found:', conversationId);
       return NextResponse.json(
         { error: 'Conversation not found' },
         { status: 404 }
       );
     }
 
-    console.log('[API GET /conversations/:id] Found conversation:', conversationId, 'with', conversation.messages.length, 'messages');
-    
+    return NextResponse.json(conversation);
+  } catch (error) {
+    console.error('[Conversations] Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    const conversationId = parseInt(id, 10);
+
+    if (isNaN(conversationId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const data: { title?: string; tags?: string[] } = {};
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || body.title.trim().length === 0) {
+        return NextResponse.json(
+          { error: 'title must be a non-empty string' },
+          { status: 400 }
+        );
+      }
+      data.title = body.title.trim();
+    }
+
+    if (body.tags !== undefined) {
+      if (!Array.isArray(body.tags) || !body.tags.every((tag: unknown) => typeof tag === 'string')) {
+        return NextResponse.json(
+          { error: 'tags must be an array of strings' },
+          { status: 400 }
+        );
+      }
+      data.tags = normalizeTags(body.tags);
+      if (data.tags.length > MAX_TAGS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_TAGS} tags per conversation` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Editing a conversation');
+    }
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data,
+    });
+
     return NextResponse.json({
       id: conversation.id,
       title: conversation.title,
-      createdAt: conversation.createdAt,
-      updatedAt: conversation.updatedAt,
-      messages: conversation.messages.map((msg) => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        createdAt: msg.createdAt,
-        sources: msg.sources,
-      })),
+      tags: conversation.tags,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
     });
   } catch (error) {
-    console.error('[Conversations] Error fetching conversation:', error);
+    console.error('[Conversations] Error updating conversation:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch conversation' },
+      { error: 'Failed to update conversation' },
       { status: 500 }
     );
   }
@@ -72,6 +141,11 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const { id } = await params;
     const conversationId = parseInt(id, 10);
@@ -83,15 +157,23 @@ export async function DELETE(
       );
     }
 
-    // Fetch all documents for this conversation to get file paths
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Deleting a conversation');
+    }
+
+    // Fetch all documents for this conversation
     const documents = await prisma.document.findMany({
       where: { conversationId },
-      select: { id: true, originalPath: true },
+      select: { id: true },
     });
 
-    const filePaths = documents.map((doc) => doc.originalPath);
-    const documentIds = documents.map((doc) => doc.id);
-
     // Step 1: Delete the conversation (cascades to messages and message sources)
     await prisma.conversation.delete({
       where: { id: conversationId },
@@ -99,66 +181,19 @@ export async function DELETE(
 
     // At this point, the conversation is deleted from the DB
     // Any subsequent errors in cleanup should not fail the request
-    
-    // Step 2: Manually delete embeddings, chunks, and documents
-    // (SQLite onDelete: SetNull for documents means we need manual cleanup)
-    let docsRemoved = 0;
-    if (documentIds.length > 0) {
-      try {
-        // Delete embeddings for chunks of these documents
-        await prisma.embedding.deleteMany({
-          where: {
-            chunk: {
-              documentId: { in: documentIds },
-            },
-          },
-        });
-
-        // Delete chunks for these documents
-        await prisma.chunk.deleteMany({
-          where: {
-            documentId: { in: documentIds },
-          },
-        });
-
-        // Delete the documents themselves
-        await prisma.document.deleteMany({
-          where: {
-            id: { in: documentIds },
-          },
-        });
-        
-        docsRemoved = documentIds.length;
-      } catch (cleanupError) {
-        console.error('[Delete] Error during document/chunk cleanup (non-fatal):', cleanupError);
-      }
-    }
 
-    // Step 3: Remove physical files from disk
-    // Note: File cleanup errors are logged but don't fail the request
+    // Step 2: Delete the documents (onDelete: SetNull leaves them detached)
+    // deleteDocument keeps content still shared with other chats and removes
+    // stored files (local disk, S3-compatible store or Vercel Blob) no document uses
+    let docsRemoved = 0;
     let filesRemoved = 0;
-    for (const filePath of filePaths) {
-      if (!filePath) continue;
-
+    for (const document of documents) {
       try {
-        const absolutePath = resolveFilePath(filePath);
-        
-        // Safety check: ensure the file is in the uploads directory
-        const uploadDir = process.env.UPLOAD_DIR || './uploads';
-        const resolvedUploadDir = resolveFilePath(uploadDir);
-        
-        if (!absolutePath.startsWith(resolvedUploadDir)) {
-          console.warn(`[Delete] Skipping file outside upload dir: ${absolutePath}`);
-          continue;
-        }
-
-        await unlink(absolutePath);
-        filesRemoved++;
-      } catch (error: any) {
-        // Log file cleanup errors but don't fail the request
-        if (error.code !== 'ENOENT') {
-          console.error(`[Delete] Failed to delete file ${filePath}:`, error);
-        }
+        const { fileRemoved } = await deleteDocument(document.id);
+        docsRemoved++;
+        if (fileRemoved) filesRemoved++;
+      } catch (cleanupError) {
+        console.error(`[Delete] Error deleting document ${document.id} (non-fatal):`, cleanupError);
       }
     }
 
@@ -169,11 +204,11 @@ export async function DELETE(
       filesRemoved,
       docsRemoved,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('[Conversations] Error deleting conversation:', error);
     
     // Handle case where conversation doesn't exist
-    if (error.code === 'P2025') {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
       return NextResponse.json(
         { error: 'Conversation not found' },
         { status: 404 }
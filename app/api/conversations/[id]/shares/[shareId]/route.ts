@@ -0,0 +1,61 @@
+/**
+ * DELETE /api/conversations/[id]/shares/[shareId]
+ * Revoke a share link (editors and owners); its URL answers 404 from then on
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { revokeShareLink } from '@/lib/shares';
+import { forbidden, getConversationAccess, hasRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id, shareId: shareIdParam } = await params;
+  const conversationId = parseInt(id, 10);
+  const shareId = parseInt(shareIdParam, 10);
+
+  if (isNaN(conversationId) || isNaN(shareId)) {
+    return NextResponse.json(
+      { error: 'Invalid conversation or share ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Revoking a share link');
+    }
+
+    const share = await revokeShareLink(conversationId, shareId);
+    if (!share) {
+      return NextResponse.json(
+        { error: `Share link with id ${shareId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(share);
+  } catch (error) {
+    console.error('[Shares] Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
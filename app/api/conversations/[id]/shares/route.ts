@@ -0,0 +1,118 @@
+/**
+ * GET /api/conversations/[id]/shares - List the conversation's share links (any member)
+ * POST /api/conversations/[id]/shares - Create a public read-only link (editors and owners)
+ * Body: { expiresInDays?: number | null, allowQuestions?: boolean }
+ * The response carries the token and URL; they cannot be shown again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isDemo } from '@/lib/config';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { createShareLink, listShareLinks, parseShareOptions } from '@/lib/shares';
+import { forbidden, getConversationAccess, hasRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+/**
+ * Parse the [id] segment
+ */
+async function parseId(params: Promise<{ id: string }>): Promise<number | null> {
+  const { id } = await params;
+  const conversationId = parseInt(id, 10);
+  return isNaN(conversationId) ? null : conversationId;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const conversationId = await parseId(params);
+  if (conversationId === null) {
+    return NextResponse.json(
+      { error: 'Invalid conversation ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ shares: await listShareLinks(conversationId) });
+  } catch (error) {
+    console.error('[Shares] Error listing share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to list share links' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  if (isDemo()) {
+    return NextResponse.json(
+      { error: 'Sharing is disabled in demo mode. This is a read-only demonstration.' },
+      { status: 403 }
+    );
+  }
+
+  const conversationId = await parseId(params);
+  if (conversationId === null) {
+    return NextResponse.json(
+      { error: 'Invalid conversation ID' },
+      { status: 400 }
+    );
+  }
+
+  const options = parseShareOptions(await request.json().catch(() => ({})));
+  if ('error' in options) {
+    return NextResponse.json(
+      { error: options.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Sharing a conversation');
+    }
+
+    const { token, share } = await createShareLink(conversationId, user.id, options);
+
+    return NextResponse.json(
+      { ...share, token, url: `${request.nextUrl.origin}/share/${token}` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Shares] Error creating share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
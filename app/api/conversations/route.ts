@@ -1,23 +1,31 @@
 /**
- * GET /api/conversations - List all conversations
- * POST /api/conversations - Create a new conversation
+ * GET /api/conversations - List the conversations of the active workspace
+ * POST /api/conversations - Create a new conversation in it (any member, so viewers can ask questions)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const limit = parseInt(searchParams.get('limit') || '50', 10);
 
     const conversations = await prisma.conversation.findMany({
+      where: { workspaceId: user.workspace.id },
       orderBy: {
         updatedAt: 'desc',
       },
       select: {
         id: true,
         title: true,
+        tags: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -35,6 +43,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const body = await request.json().catch(() => ({}));
     const title = body.title || 'New chat';
@@ -42,6 +55,8 @@ export async function POST(request: NextRequest) {
     const conversation = await prisma.conversation.create({
       data: {
         title,
+        workspaceId: user.workspace.id,
+        ownerId: user.id,
       },
     });
 
@@ -49,6 +64,7 @@ export async function POST(request: NextRequest) {
       {
         id: conversation.id,
         title: conversation.title,
+        tags: conversation.tags,
         createdAt: conversation.createdAt.toISOString(),
         updatedAt: conversation.updatedAt.toISOString(),
       },
@@ -0,0 +1,43 @@
+/**
+ * Ingestion worker endpoint for hosts without a long-lived server process
+ * Processes queued ingestion jobs for up to ~50 seconds per call
+ *
+ * Point a cron job or external scheduler at this endpoint
+ * (send "Authorization: Bearer <CRON_SECRET>"; required in production)
+ */
+
+import { NextResponse } from 'next/server';
+import { processIngestJobs } from '@/lib/jobs';
+import { isCronAuthorized, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Stop claiming new jobs after this long so the function finishes in time
+const TIME_BUDGET_MS = 50000;
+
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const processed = await processIngestJobs(TIME_BUDGET_MS);
+
+    return NextResponse.json({
+      ok: true,
+      processed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Cron Ingest] Error:', error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: 'Failed to process ingestion jobs',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,18 @@
  * Call this endpoint every 6 days to keep database active
  * 
  * Set up Vercel Cron or external service to ping this endpoint
+ * (send "Authorization: Bearer <CRON_SECRET>"; required in production)
  */
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { isCronAuthorized, unauthorized } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return unauthorized();
+  }
 
-export async function GET() {
   try {
     // Simple query to keep database active
     const count = await prisma.conversation.count();
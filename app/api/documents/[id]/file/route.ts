@@ -0,0 +1,122 @@
+/**
+ * GET /api/documents/[id]/file
+ * Streams a document's original file from storage, with HTTP Range support
+ * (the PDF viewer fetches pages on demand). Only PDFs are shown inline; other
+ * uploads (HTML, Markdown, ...) are downloads, so they never render on the app
+ * origin. Only members of the document's workspace can read it; anyone else gets 404
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '@/lib/storage';
+import { findReadableDocument } from '@/lib/documents';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * Parse a single-range "bytes=start-end" header against a file size
+ * @returns The inclusive byte range, null when absent/unsupported (serve the whole file),
+ *          or 'unsatisfiable' when it falls outside the file
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | null | 'unsatisfiable' {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multiple ranges and other units are answered with the full file
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const documentId = parseInt(id, 10);
+
+  if (isNaN(documentId)) {
+    return NextResponse.json(
+      { error: 'Invalid document ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const document = await findReadableDocument(documentId, user.id);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: `Document with id ${documentId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const storage = getStorage();
+    const size = await storage.size(document.originalPath);
+    const inline = document.mimeType === 'application/pdf';
+    const headers: Record<string, string> = {
+      'Content-Type': inline ? 'application/pdf' : 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(document.filename)}`,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=3600',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': 'sandbox',
+    };
+
+    const range = parseRange(request.headers.get('range'), size);
+
+    if (range === 'unsatisfiable') {
+      return new Response(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    if (range) {
+      return new Response(await storage.stream(document.originalPath, range), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+          'Content-Length': String(range.end - range.start + 1),
+        },
+      });
+    }
+
+    return new Response(await storage.stream(document.originalPath), {
+      headers: { ...headers, 'Content-Length': String(size) },
+    });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return NextResponse.json(
+        { error: 'Document file not found' },
+        { status: 404 }
+      );
+    }
+    console.error('[Documents] Error serving file:', error);
+    return NextResponse.json(
+      { error: 'Failed to read document file' },
+      { status: 500 }
+    );
+  }
+}
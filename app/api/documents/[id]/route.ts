@@ -0,0 +1,202 @@
+/**
+ * GET /api/documents/[id] - Document details
+ * PATCH /api/documents/[id] - Rename ({ filename }) and/or move ({ conversationId }) (editors and owners)
+ * DELETE /api/documents/[id] - Delete the document, its chunks/embeddings and stored file (editors and owners)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { isDemo } from '@/lib/config';
+import { deleteDocument, getDocument, updateDocument, validateFilename } from '@/lib/documents';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getDocumentAccess, hasRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+/**
+ * Parse the [id] segment
+ */
+async function parseId(params: Promise<{ id: string }>): Promise<number | null> {
+  const { id } = await params;
+  const documentId = parseInt(id, 10);
+  return isNaN(documentId) ? null : documentId;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const documentId = await parseId(params);
+  if (documentId === null) {
+    return NextResponse.json(
+      { error: 'Invalid document ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const document = await getDocument(documentId, user.id);
+    if (!document) {
+      return NextResponse.json(
+        { error: `Document with id ${documentId} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(document);
+  } catch (error) {
+    console.error('[Documents] Error fetching document:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  if (isDemo()) {
+    return NextResponse.json(
+      { error: 'Editing documents is disabled in demo mode. This is a read-only demonstration.' },
+      { status: 403 }
+    );
+  }
+
+  const documentId = await parseId(params);
+  if (documentId === null) {
+    return NextResponse.json(
+      { error: 'Invalid document ID' },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const data: { filename?: string; conversationId?: number } = {};
+
+  if (body.filename !== undefined) {
+    const result = validateFilename(body.filename);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    data.filename = result.filename;
+  }
+
+  if (body.conversationId !== undefined) {
+    if (typeof body.conversationId !== 'number') {
+      return NextResponse.json(
+        { error: 'conversationId must be a number' },
+        { status: 400 }
+      );
+    }
+    data.conversationId = body.conversationId;
+  }
+
+  if (data.filename === undefined && data.conversationId === undefined) {
+    return NextResponse.json(
+      { error: 'Provide filename and/or conversationId' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getDocumentAccess(documentId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: `Document with id ${documentId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Editing a document');
+    }
+
+    // Moving requires the target conversation to exist in the document's workspace
+    if (data.conversationId !== undefined) {
+      const conversation = await prisma.conversation.findFirst({
+        where: { id: data.conversationId, workspaceId: access.workspaceId },
+        select: { id: true },
+      });
+      if (!conversation) {
+        return NextResponse.json(
+          { error: `Conversation with id ${data.conversationId} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(await updateDocument(documentId, data));
+  } catch (error) {
+    console.error('[Documents] Error updating document:', error);
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  if (isDemo()) {
+    return NextResponse.json(
+      { error: 'Deleting documents is disabled in demo mode. This is a read-only demonstration.' },
+      { status: 403 }
+    );
+  }
+
+  const documentId = await parseId(params);
+  if (documentId === null) {
+    return NextResponse.json(
+      { error: 'Invalid document ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getDocumentAccess(documentId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: `Document with id ${documentId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Deleting a document');
+    }
+
+    const { fileRemoved } = await deleteDocument(documentId);
+    console.log(`[Documents] Deleted document ${documentId}${fileRemoved ? ' and its file' : ''}`);
+
+    return NextResponse.json({ deleted: true, fileRemoved });
+  } catch (error: any) {
+    // Record to delete does not exist
+    if (error.code === 'P2025') {
+      return NextResponse.json(
+        { error: `Document with id ${documentId} not found` },
+        { status: 404 }
+      );
+    }
+    console.error('[Documents] Error deleting document:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
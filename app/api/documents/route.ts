@@ -0,0 +1,39 @@
+/**
+ * GET /api/documents?conversationId=N
+ * Lists the active workspace's documents with size, chunk count, embedding models
+ * and ingest status (its whole library when conversationId is omitted)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDocuments } from '@/lib/documents';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const conversationIdParam = request.nextUrl.searchParams.get('conversationId');
+  const conversationId = conversationIdParam !== null ? parseInt(conversationIdParam, 10) : undefined;
+
+  if (conversationId !== undefined && isNaN(conversationId)) {
+    return NextResponse.json(
+      { error: 'Invalid conversation ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const documents = await listDocuments(user.workspace.id, conversationId);
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error('[Documents] Error listing documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to list documents' },
+      { status: 500 }
+    );
+  }
+}
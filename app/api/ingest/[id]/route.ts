@@ -0,0 +1,55 @@
+/**
+ * GET /api/ingest/[id]
+ * Status and progress of one ingestion job (polled by the upload UI)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestJob, kickIngestWorker, serializeIngestJob } from '@/lib/jobs';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const jobId = parseInt(id, 10);
+
+  if (isNaN(jobId)) {
+    return NextResponse.json(
+      { error: 'Invalid job ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await getIngestJob(jobId);
+
+    if (!job || !(await getRole(job.document.workspaceId, user.id))) {
+      return NextResponse.json(
+        { error: `Ingest job with id ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    // Pick up queued work left over from a restart
+    if (job.status === 'queued') {
+      kickIngestWorker();
+    }
+
+    return NextResponse.json(serializeIngestJob(job));
+  } catch (error) {
+    console.error('[Ingest] Error fetching job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ingestion job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GET /api/ingest?conversationId=N
+ * Lists the ingestion jobs of a conversation (newest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { kickIngestWorker, listIngestJobs, serializeIngestJob } from '@/lib/jobs';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { getConversationAccess } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const conversationId = parseInt(request.nextUrl.searchParams.get('conversationId') || '', 10);
+
+  if (isNaN(conversationId)) {
+    return NextResponse.json(
+      { error: 'conversationId required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: `Conversation with id ${conversationId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const jobs = await listIngestJobs(conversationId);
+
+    // Pick up queued work left over from a restart
+    if (jobs.some((job) => job.status === 'queued')) {
+      kickIngestWorker();
+    }
+
+    return NextResponse.json({ jobs: jobs.map(serializeIngestJob) });
+  } catch (error) {
+    console.error('[Ingest] Error listing jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list ingestion jobs' },
+      { status: 500 }
+    );
+  }
+}
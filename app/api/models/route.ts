@@ -0,0 +1,43 @@
+/**
+ * GET /api/models
+ * Lists the LLM models available from the configured provider
+ */
+
+import { NextResponse } from 'next/server';
+import { cfg } from '@/lib/config';
+import { getLLMModelName, listLLMModels } from '@/lib/ai_providers';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const defaultModel = getLLMModelName();
+
+  try {
+    const models = await listLLMModels();
+
+    return NextResponse.json({
+      provider: cfg.PROVIDER_LLM,
+      default: defaultModel,
+      models,
+    });
+  } catch (error: any) {
+    console.error('[Models] Error listing models:', error);
+
+    // Still report the default so the client can fall back to it
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to list models',
+        provider: cfg.PROVIDER_LLM,
+        default: defaultModel,
+        models: [defaultModel],
+      },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * GET /api/reembed?conversationId=N
+ * Index status of a conversation: documents not searchable with the active embedding model
+ *
+ * POST /api/reembed
+ * Rebuilds chunks and embeddings after an embedding provider or chunking change
+ * Body: { documentId } | { conversationId } | { all: true } (every document of the
+ * active workspace), plus optional
+ * { chunking: 'fixed' | 'structured', force: boolean }
+ * Requires the editor or owner role in the workspace
+ * Queues one ingestion job per document (poll GET /api/ingest/[jobId] for progress)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isDemo } from '@/lib/config';
+import { getIndexStatus, ReembedScope, reembedDocuments } from '@/lib/reembed';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getConversationAccess, getDocumentAccess, hasRole, WorkspaceRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const conversationId = parseInt(request.nextUrl.searchParams.get('conversationId') || '', 10);
+
+  if (isNaN(conversationId)) {
+    return NextResponse.json(
+      { error: 'conversationId required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const access = await getConversationAccess(conversationId, user.id);
+    if (!access) {
+      return NextResponse.json(
+        { error: `Conversation with id ${conversationId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getIndexStatus(conversationId));
+  } catch (error) {
+    console.error('[Reembed] Error checking index status:', error);
+    return NextResponse.json(
+      { error: 'Failed to check index status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  // Block re-indexing in demo mode
+  if (isDemo()) {
+    return NextResponse.json(
+      { error: 'Re-embedding disabled in demo mode. This is a read-only demonstration.' },
+      { status: 403 }
+    );
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const { documentId, conversationId, all, chunking, force } = body || {};
+
+  // Exactly one scope must be given
+  const scopes = [documentId !== undefined, conversationId !== undefined, all === true].filter(Boolean).length;
+  if (scopes !== 1) {
+    return NextResponse.json(
+      { error: 'Provide exactly one of documentId, conversationId or all: true' },
+      { status: 400 }
+    );
+  }
+
+  if (chunking !== undefined && chunking !== 'fixed' && chunking !== 'structured') {
+    return NextResponse.json(
+      { error: "chunking must be 'fixed' or 'structured'" },
+      { status: 400 }
+    );
+  }
+
+  let scope: ReembedScope;
+  let role: WorkspaceRole;
+  try {
+    if (documentId !== undefined) {
+      if (typeof documentId !== 'number') {
+        return NextResponse.json({ error: 'documentId must be a number' }, { status: 400 });
+      }
+      const access = await getDocumentAccess(documentId, user.id);
+      if (!access) {
+        return NextResponse.json(
+          { error: `Document with id ${documentId} not found` },
+          { status: 404 }
+        );
+      }
+      scope = { documentId };
+      role = access.role;
+    } else if (conversationId !== undefined) {
+      if (typeof conversationId !== 'number') {
+        return NextResponse.json({ error: 'conversationId must be a number' }, { status: 400 });
+      }
+      const access = await getConversationAccess(conversationId, user.id);
+      if (!access) {
+        return NextResponse.json(
+          { error: `Conversation with id ${conversationId} not found` },
+          { status: 404 }
+        );
+      }
+      scope = { conversationId };
+      role = access.role;
+    } else {
+      scope = { workspaceId: user.workspace.id };
+      role = user.workspace.role;
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return forbidden('Re-embedding');
+    }
+
+    const plan = await reembedDocuments(scope, { chunking, force: force === true });
+
+    return NextResponse.json(plan, { status: 202 });
+  } catch (error) {
+    console.error('[Reembed] Error queueing re-embed:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue re-embedding' },
+      { status: 500 }
+    );
+  }
+}
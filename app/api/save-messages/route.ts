@@ -5,11 +5,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { memberOf } from '@/lib/workspaces';
 
 export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   try {
     const body = await request.json();
-    const { question, answer, conversationId } = body;
+    const { question, answer, conversationId, model } = body;
 
     // Validate inputs
     if (!question || typeof question !== 'string') {
@@ -33,9 +40,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if conversation exists
-    const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
+    // Check if conversation exists in one of the user's workspaces (viewers may ask questions too)
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, ...memberOf(user.id) },
     });
 
     if (!conversation) {
@@ -60,6 +67,7 @@ export async function POST(request: NextRequest) {
         conversationId: conversationId,
         role: 'assistant',
         content: answer,
+        model: typeof model === 'string' && model ? model : null,
       },
     });
 
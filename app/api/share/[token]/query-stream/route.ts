@@ -0,0 +1,82 @@
+/**
+ * POST /api/share/[token]/query-stream
+ * Follow-up questions on a shared conversation, for links created with allowQuestions
+ * Body: { question }. Searches the conversation's documents and streams the answer
+ * like /api/query-stream (NDJSON events: sources, delta, done, or error). Answers are
+ * not saved to the conversation
+ */
+
+import { NextRequest } from 'next/server';
+import { prepareSharedQuery, PreparedQuery, queryErrorStatus, streamAnswer } from '@/lib/query';
+import { resolveShareLink, shareNotFound, toPublicSource } from '@/lib/shares';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  let prepared: PreparedQuery;
+  try {
+    const share = await resolveShareLink(token);
+    if (!share) {
+      return shareNotFound();
+    }
+    if (!share.allowQuestions) {
+      return Response.json(
+        { error: 'This share link does not allow follow-up questions' },
+        { status: 403 }
+      );
+    }
+
+    prepared = await prepareSharedQuery(await request.json().catch(() => ({})), share.conversationId);
+  } catch (error: any) {
+    const status = queryErrorStatus(error);
+    if (status >= 500) {
+      console.error('[Share Query] Error:', error);
+    }
+    return Response.json(
+      { error: error.message || 'An unexpected error occurred' },
+      { status }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      let fullAnswer = '';
+
+      try {
+        send({
+          type: 'sources',
+          sources: prepared.sources.map(toPublicSource),
+          model: prepared.model,
+          query: prepared.retrievalQuery,
+        });
+
+        for await (const chunk of streamAnswer(prepared, request.signal)) {
+          fullAnswer += chunk;
+          send({ type: 'delta', delta: chunk });
+        }
+
+        send({ type: 'done', fullAnswer });
+      } catch (error: any) {
+        console.error('[Share Query] Error:', error);
+        send({ type: 'error', error: error.message || 'An error occurred during streaming' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * GET /api/share/[token]
+ * Public, read-only view of a shared conversation: the GET /api/conversations/[id]
+ * payload (without other conversations' titles in sources) plus what the link allows. No sign-in required; unknown, expired and
+ * revoked links answer 404
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationPayload } from '@/lib/conversations';
+import { resolveShareLink, shareNotFound, toPublicSource } from '@/lib/shares';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const share = await resolveShareLink(token);
+    if (!share) {
+      return shareNotFound();
+    }
+
+    const conversation = await getConversationPayload({ id: share.conversationId });
+    if (!conversation) {
+      return shareNotFound();
+    }
+
+    return NextResponse.json({
+      ...conversation,
+      messages: conversation.messages.map((message) => ({
+        ...message,
+        sources: message.sources.map(toPublicSource),
+      })),
+      share: {
+        allowQuestions: share.allowQuestions,
+        expiresAt: share.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('[Share] Error loading shared conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to load shared conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * GET /api/tags
+ * Lists the active workspace's conversation tags with the number of conversations carrying each
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ tag: string; conversations: number }>>`
+      SELECT t.tag AS tag, COUNT(*)::int AS conversations
+      FROM "Conversation" c, unnest(c."tags") AS t(tag)
+      WHERE c."workspaceId" = ${user.workspace.id}
+      GROUP BY t.tag
+      ORDER BY t.tag ASC
+    `;
+
+    return NextResponse.json({
+      tags: rows.map((r) => ({ tag: r.tag, conversations: Number(r.conversations) })),
+    });
+  } catch (error) {
+    console.error('[Tags] Error listing tags:', error);
+    return NextResponse.json(
+      { error: 'Failed to list tags' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,54 @@
 /**
  * POST /api/upload
- * Accepts PDF file uploads, saves to disk, persists metadata to database, and auto-embeds
+ * Accepts document uploads (PDF, Markdown, text, HTML, DOCX), saves them to the configured storage, persists metadata to database,
+ * and queues a background ingestion job (poll GET /api/ingest/[jobId] for progress)
+ * Requires the editor or owner role in the conversation's workspace
+ * Uploads are deduplicated by SHA-256 per workspace: identical content reuses the stored file,
+ * chunks and embeddings of the workspace's first upload (jobId is null when nothing needs indexing)
+ * Optional fields: chunking ('fixed' | 'structured'), ocr ('auto' | 'force' | 'off')
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { savePdfToDisk } from '@/lib/storage';
+import { savePdf } from '@/lib/storage';
 import { prisma } from '@/lib/db';
-import { MAX_UPLOAD_MB, ALLOWED_MIME } from '@/lib/constants';
-import { embedDocument } from '@/lib/ingest';
+import { hashContent, reuseDocument } from '@/lib/documents';
+import { MAX_UPLOAD_MB, ALLOWED_EXTENSIONS } from '@/lib/constants';
+import { findExtractor } from '@/lib/extract';
+import { parseChunkStrategy } from '@/lib/ingest';
+import { OcrMode, parseOcrMode } from '@/lib/ocr';
+import { ChunkStrategy } from '@/lib/chunk';
+import { ACTIVE_JOB_STATUSES, enqueueIngestJob, kickIngestWorker } from '@/lib/jobs';
 import { isDemo } from '@/lib/config';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getConversationAccess, hasRole } from '@/lib/workspaces';
+
+/**
+ * Job that indexes a reused document's content: its pending job, a fresh one when
+ * the content was never indexed (e.g. the first upload failed), or null when done
+ */
+async function contentJob(canonicalId: number, chunking: ChunkStrategy, ocr: OcrMode) {
+  const latest = await prisma.ingestJob.findFirst({
+    where: { documentId: canonicalId },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (latest && ACTIVE_JOB_STATUSES.includes(latest.status)) {
+    return latest;
+  }
+
+  if ((await prisma.chunk.count({ where: { documentId: canonicalId } })) > 0) {
+    return null;
+  }
+  const job = await enqueueIngestJob(canonicalId, chunking, ocr);
+  kickIngestWorker();
+  return job;
+}
 
 export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
   // Block uploads in demo mode
   if (isDemo()) {
     return NextResponse.json(
@@ -30,6 +68,14 @@ export async function POST(request: NextRequest) {
     
     const conversationId = conversationIdStr ? parseInt(conversationIdStr, 10) : null;
 
+    // Optional chunking strategy for this upload ('fixed' | 'structured')
+    const chunking = parseChunkStrategy(
+      formData.get('chunking') || request.nextUrl.searchParams.get('chunking')
+    );
+
+    // Optional OCR mode for scanned PDFs ('auto' | 'force' | 'off')
+    const ocr = parseOcrMode(formData.get('ocr') || request.nextUrl.searchParams.get('ocr'));
+
     // Require conversationId
     if (conversationId === null || isNaN(conversationId)) {
       return NextResponse.json(
@@ -38,17 +84,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if conversation exists
-    const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
-    });
+    // Check if conversation exists in one of the user's workspaces, and that they may add to it
+    const access = await getConversationAccess(conversationId, user.id);
 
-    if (!conversation) {
+    if (!access) {
       return NextResponse.json(
         { error: `Conversation with id ${conversationId} not found` },
         { status: 404 }
       );
     }
+    if (!hasRole(access.role, 'editor')) {
+      return forbidden('Uploading documents');
+    }
 
     // Validate file exists
     if (!file) {
@@ -58,10 +105,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate MIME type
-    if (!ALLOWED_MIME.includes(file.type)) {
+    // Validate file type (by extension first, then MIME type)
+    const extractor = findExtractor(file.type, file.name);
+    if (!extractor) {
       return NextResponse.json(
-        { error: `Invalid file type. Only PDF files are allowed. Got: ${file.type}` },
+        { error: `Invalid file type. Allowed: ${ALLOWED_EXTENSIONS.join(', ')}. Got: ${file.type || file.name}` },
         { status: 400 }
       );
     }
@@ -75,50 +123,65 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get upload directory from environment (default to ./uploads)
-    const uploadDir = process.env.UPLOAD_DIR || './uploads';
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const contentHash = hashContent(buffer);
 
-    // Save file to disk
-    const { savedPath, safeFilename, sizeBytes } = await savePdfToDisk(
-      file,
-      uploadDir
-    );
+    // Same content uploaded before in this workspace: share its file and index instead of storing it again
+    const reused = await reuseDocument(contentHash, {
+      conversationId,
+      workspaceId: access.workspaceId,
+      ownerId: user.id,
+    });
+    if (reused) {
+      const [document, job] = await Promise.all([
+        prisma.document.findUniqueOrThrow({ where: { id: reused.documentId } }),
+        contentJob(reused.canonicalId, chunking, ocr),
+      ]);
+
+      return NextResponse.json(
+        {
+          documentId: document.id,
+          filename: document.filename,
+          sizeBytes: document.sizeBytes,
+          conversationId: document.conversationId,
+          originalPath: document.originalPath,
+          mimeType: document.mimeType,
+          createdAt: document.createdAt.toISOString(),
+          jobId: job?.id ?? null,
+          status: job?.status ?? 'done',
+          chunking,
+          ocr,
+          // 'conversation': already in this chat; 'library': shared with another chat's upload
+          duplicate: reused.created ? 'library' : 'conversation',
+          duplicateOf: reused.canonicalId,
+        },
+        { status: job ? 202 : 200 }
+      );
+    }
+
+    // Save file to storage (local disk, S3-compatible store or Vercel Blob)
+    const mimeType = extractor.mimeTypes[0];
+    const { url: savedPath, filename: safeFilename, sizeBytes } = await savePdf(buffer, file.name, mimeType);
 
     // Insert document record into database with conversationId
     const document = await prisma.document.create({
       data: {
         filename: safeFilename,
         originalPath: savedPath,
+        mimeType,
         sizeBytes: sizeBytes,
+        contentHash,
+        workspaceId: access.workspaceId,
+        ownerId: user.id,
         conversationId: conversationId,
       },
     });
 
-    // Auto-embed the document
-    let embedResult;
-    try {
-      embedResult = await embedDocument(document.id);
-    } catch (embedError: any) {
-      console.error('[Upload] Auto-embed failed:', embedError);
-      
-      // Determine appropriate status code based on error message
-      let statusCode = 500;
-      if (embedError.message?.includes('not found')) statusCode = 404;
-      else if (embedError.message?.includes('No extractable text')) statusCode = 422;
-      else if (embedError.message?.includes('Cannot connect to Ollama')) statusCode = 503;
-      
-      return NextResponse.json(
-        {
-          error: `File uploaded but embedding failed: ${embedError.message}`,
-          documentId: document.id,
-          filename: document.filename,
-          autoEmbedded: false,
-        },
-        { status: statusCode }
-      );
-    }
+    // Queue extraction, chunking and embedding in the background
+    const job = await enqueueIngestJob(document.id, chunking, ocr);
+    kickIngestWorker();
 
-    // Return success response with document metadata and embed result
+    // Return document metadata and the job to poll
     return NextResponse.json(
       {
         documentId: document.id,
@@ -126,13 +189,16 @@ export async function POST(request: NextRequest) {
         sizeBytes: document.sizeBytes,
         conversationId: document.conversationId,
         originalPath: document.originalPath,
+        mimeType: document.mimeType,
         createdAt: document.createdAt.toISOString(),
-        autoEmbedded: true,
-        chunksCreated: embedResult.chunksCreated,
-        embeddingsCreated: embedResult.embeddingsCreated,
-        model: embedResult.model,
+        jobId: job.id,
+        status: job.status,
+        chunking,
+        ocr,
+        duplicate: null,
+        duplicateOf: null,
       },
-      { status: 201 }
+      { status: 202 }
     );
   } catch (error) {
     console.error('Upload error:', error);
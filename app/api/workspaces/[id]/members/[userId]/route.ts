@@ -0,0 +1,153 @@
+/**
+ * PATCH /api/workspaces/[id]/members/[userId] - Change a member's role ({ role }) (owners only)
+ * DELETE /api/workspaces/[id]/members/[userId] - Remove a member (owners), or leave (any member)
+ * A workspace always keeps at least one owner
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getRole, hasRole, parseRole, remainingOwners } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+/**
+ * Parse the [id] and [userId] segments
+ */
+async function parseIds(
+  params: Promise<{ id: string; userId: string }>
+): Promise<{ workspaceId: number; memberId: number } | null> {
+  const { id, userId } = await params;
+  const workspaceId = parseInt(id, 10);
+  const memberId = parseInt(userId, 10);
+  return isNaN(workspaceId) || isNaN(memberId) ? null : { workspaceId, memberId };
+}
+
+function memberNotFound(): NextResponse {
+  return NextResponse.json(
+    { error: 'Member not found' },
+    { status: 404 }
+  );
+}
+
+function lastOwner(): NextResponse {
+  return NextResponse.json(
+    { error: 'A workspace needs at least one owner. Make another member owner first.' },
+    { status: 409 }
+  );
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const ids = await parseIds(params);
+  if (!ids) {
+    return NextResponse.json(
+      { error: 'Invalid workspace or user ID' },
+      { status: 400 }
+    );
+  }
+  const { workspaceId, memberId } = ids;
+
+  const body = await request.json().catch(() => ({}));
+  const role = parseRole(body.role);
+  if (!role) {
+    return NextResponse.json(
+      { error: "role must be 'owner', 'editor' or 'viewer'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const myRole = await getRole(workspaceId, user.id);
+    if (!myRole) {
+      return NextResponse.json(
+        { error: `Workspace with id ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(myRole, 'owner')) {
+      return forbidden('Changing roles', 'owner');
+    }
+
+    const current = await getRole(workspaceId, memberId);
+    if (!current) {
+      return memberNotFound();
+    }
+    if (current === 'owner' && role !== 'owner' && (await remainingOwners(workspaceId, memberId)) === 0) {
+      return lastOwner();
+    }
+
+    const membership = await prisma.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId, userId: memberId } },
+      data: { role },
+    });
+
+    return NextResponse.json({ userId: memberId, role: membership.role });
+  } catch (error) {
+    console.error('[Workspaces] Error changing role:', error);
+    return NextResponse.json(
+      { error: 'Failed to change role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const ids = await parseIds(params);
+  if (!ids) {
+    return NextResponse.json(
+      { error: 'Invalid workspace or user ID' },
+      { status: 400 }
+    );
+  }
+  const { workspaceId, memberId } = ids;
+
+  try {
+    const myRole = await getRole(workspaceId, user.id);
+    if (!myRole) {
+      return NextResponse.json(
+        { error: `Workspace with id ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+    if (memberId !== user.id && !hasRole(myRole, 'owner')) {
+      return forbidden('Removing members', 'owner');
+    }
+
+    const current = await getRole(workspaceId, memberId);
+    if (!current) {
+      return memberNotFound();
+    }
+    if (current === 'owner' && (await remainingOwners(workspaceId, memberId)) === 0) {
+      return lastOwner();
+    }
+
+    // Sessions still pointing at the workspace fall back to the member's first one
+    await prisma.workspaceMember.delete({
+      where: { workspaceId_userId: { workspaceId, userId: memberId } },
+    });
+
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error('[Workspaces] Error removing member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * POST /api/workspaces/[id]/members
+ * Add an existing account to a workspace (owners only)
+ * Body: { email, role?: 'owner' | 'editor' | 'viewer' } (role defaults to 'editor')
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser, normalizeEmail, unauthorized } from '@/lib/auth';
+import { forbidden, getRole, hasRole, parseRole } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const workspaceId = parseInt(id, 10);
+  if (isNaN(workspaceId)) {
+    return NextResponse.json(
+      { error: 'Invalid workspace ID' },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.email !== 'string' || body.email.trim().length === 0) {
+    return NextResponse.json(
+      { error: 'email must be a non-empty string' },
+      { status: 400 }
+    );
+  }
+  const role = body.role === undefined ? 'editor' : parseRole(body.role);
+  if (!role) {
+    return NextResponse.json(
+      { error: "role must be 'owner', 'editor' or 'viewer'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const myRole = await getRole(workspaceId, user.id);
+    if (!myRole) {
+      return NextResponse.json(
+        { error: `Workspace with id ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(myRole, 'owner')) {
+      return forbidden('Adding members', 'owner');
+    }
+
+    const email = normalizeEmail(body.email);
+    const member = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true },
+    });
+    if (!member) {
+      return NextResponse.json(
+        { error: `No account with email ${email}. They need to sign up first.` },
+        { status: 404 }
+      );
+    }
+
+    if (await getRole(workspaceId, member.id)) {
+      return NextResponse.json(
+        { error: `${email} is already a member of this workspace` },
+        { status: 409 }
+      );
+    }
+
+    const membership = await prisma.workspaceMember.create({
+      data: { workspaceId, userId: member.id, role },
+    });
+
+    return NextResponse.json(
+      {
+        userId: member.id,
+        email: member.email,
+        name: member.name,
+        role: membership.role,
+        joinedAt: membership.createdAt.toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Workspaces] Error adding member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * GET /api/workspaces/[id] - Workspace details with its members (any member)
+ * PATCH /api/workspaces/[id] - Rename a workspace ({ name }) (owners only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getCurrentUser, unauthorized } from '@/lib/auth';
+import { forbidden, getRole, hasRole, validateWorkspaceName } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+/**
+ * Parse the [id] segment
+ */
+async function parseId(params: Promise<{ id: string }>): Promise<number | null> {
+  const { id } = await params;
+  const workspaceId = parseInt(id, 10);
+  return isNaN(workspaceId) ? null : workspaceId;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const workspaceId = await parseId(params);
+  if (workspaceId === null) {
+    return NextResponse.json(
+      { error: 'Invalid workspace ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getRole(workspaceId, user.id);
+    if (!role) {
+      return NextResponse.json(
+        { error: `Workspace with id ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      include: {
+        members: {
+          orderBy: { createdAt: 'asc' },
+          include: { user: { select: { id: true, email: true, name: true } } },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      createdAt: workspace.createdAt.toISOString(),
+      members: workspace.members.map((m) => ({
+        userId: m.user.id,
+        email: m.user.email,
+        name: m.user.name,
+        role: m.role,
+        joinedAt: m.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Workspaces] Error fetching workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const workspaceId = await parseId(params);
+  if (workspaceId === null) {
+    return NextResponse.json(
+      { error: 'Invalid workspace ID' },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validated = validateWorkspaceName(body.name);
+  if ('error' in validated) {
+    return NextResponse.json(
+      { error: validated.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const role = await getRole(workspaceId, user.id);
+    if (!role) {
+      return NextResponse.json(
+        { error: `Workspace with id ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!hasRole(role, 'owner')) {
+      return forbidden('Renaming a workspace', 'owner');
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: { name: validated.name },
+    });
+
+    return NextResponse.json({ id: workspace.id, name: workspace.name, role });
+  } catch (error) {
+    console.error('[Workspaces] Error renaming workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename workspace' },
+      { status: 500 }
+    );
+  }
+}
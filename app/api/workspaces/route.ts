@@ -0,0 +1,59 @@
+/**
+ * GET /api/workspaces - List the signed-in user's workspaces with their role and member count
+ * POST /api/workspaces - Create a workspace ({ name }) owned by the user and switch to it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, setSessionWorkspace, unauthorized } from '@/lib/auth';
+import { createWorkspace, listWorkspaces, validateWorkspaceName } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  try {
+    return NextResponse.json({
+      activeId: user.workspace.id,
+      workspaces: await listWorkspaces(user.id),
+    });
+  } catch (error) {
+    console.error('[Workspaces] Error listing workspaces:', error);
+    return NextResponse.json(
+      { error: 'Failed to list workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const validated = validateWorkspaceName(body.name);
+  if ('error' in validated) {
+    return NextResponse.json(
+      { error: validated.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const workspace = await createWorkspace(validated.name, user.id);
+    await setSessionWorkspace(workspace.id);
+
+    return NextResponse.json({ ...workspace, members: 1 }, { status: 201 });
+  } catch (error) {
+    console.error('[Workspaces] Error creating workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
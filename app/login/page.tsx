@@ -0,0 +1,20 @@
+import { Suspense } from 'react';
+import { redirect } from 'next/navigation';
+import { canSignUp, getCurrentUser } from '@/lib/auth';
+import { cfg, isOidcEnabled } from '@/lib/config';
+import LoginForm from '@/components/auth/LoginForm';
+
+export default async function LoginPage() {
+  if (await getCurrentUser()) {
+    redirect('/');
+  }
+
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <LoginForm
+        signUp={await canSignUp()}
+        oidcName={isOidcEnabled() ? cfg.OIDC_NAME : null}
+      />
+    </Suspense>
+  );
+}
@@ -1,10 +1,18 @@
 import { Suspense } from 'react';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
 import ChatShell from './ChatShell';
 
-export default function Page() {
+export default async function Page() {
+  // Conversations belong to accounts: sign in first
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
   return (
     <Suspense fallback={<div>Loading...</div>}>
-      <ChatShell />
+      <ChatShell user={user} />
     </Suspense>
   );
-}
\ No newline at end of file
+}
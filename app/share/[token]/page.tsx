@@ -0,0 +1,7 @@
+import SharedConversation from '@/components/share/SharedConversation';
+
+// Public page: no sign-in, the token in the URL grants read access
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <SharedConversation token={token} />;
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import styles from '@/styles/chat.module.css';
+
+interface LoginFormProps {
+  // Whether email/password registration is open
+  signUp: boolean;
+  // Label of the OpenID Connect button (hidden when null)
+  oidcName: string | null;
+}
+
+/**
+ * Sign-in / registration form shown in front of the chat
+ */
+export default function LoginForm({ signUp, oidcName }: LoginFormProps) {
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<'signin' | 'register'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // OIDC failures come back as ?error=...
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(mode === 'signin' ? '/api/auth/login' : '/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'signin' ? { email, password } : { email, password, name }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data.error || 'Sign-in failed');
+        return;
+      }
+
+      // Full navigation so the server renders the chat with the new session
+      window.location.href = '/';
+    } catch (err) {
+      console.error('[Login] Request failed:', err);
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const registering = mode === 'register';
+
+  return (
+    <div className={styles.authPage}>
+      <form className={styles.authCard} onSubmit={handleSubmit}>
+        <h1 className={styles.authTitle}>
+          {registering ? 'Create your Second Brain account' : 'Sign in to Second Brain'}
+        </h1>
+
+        {error && (
+          <div className={styles.authError} role="alert">
+            {error}
+          </div>
+        )}
+
+        {registering && (
+          <input
+            type="text"
+            className={styles.authInput}
+            placeholder="Name (optional)"
+            autoComplete="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        )}
+        <input
+          type="email"
+          className={styles.authInput}
+          placeholder="Email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <input
+          type="password"
+          className={styles.authInput}
+          placeholder="Password"
+          autoComplete={registering ? 'new-password' : 'current-password'}
+          minLength={registering ? 8 : undefined}
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+
+        <button type="submit" className={styles.authSubmit} disabled={submitting}>
+          {submitting ? 'Please wait...' : registering ? 'Create account' : 'Sign in'}
+        </button>
+
+        {oidcName && (
+          <>
+            <div className={styles.authDivider}>or</div>
+            <a href="/api/auth/oidc" className={styles.authProvider}>
+              Continue with {oidcName}
+            </a>
+          </>
+        )}
+
+        {signUp && (
+          <div className={styles.authSwitch}>
+            {registering ? 'Already have an account?' : 'No account yet?'}{' '}
+            <button
+              type="button"
+              onClick={() => {
+                setMode(registering ? 'signin' : 'register');
+                setError(null);
+              }}
+            >
+              {registering ? 'Sign in' : 'Create one'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -2,24 +2,33 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import HeaderBar from './HeaderBar';
-import MessageList, { Message } from './MessageList';
+import MessageList, { Message, MessageCitation } from './MessageList';
 import TypingIndicator from './TypingIndicator';
 import InputBar from './InputBar';
+import IndexStatusBanner from './IndexStatusBanner';
+import DocumentsPanel from './DocumentsPanel';
+import SharePanel from './SharePanel';
+import SourcePanel from './SourcePanel';
 import ProgressBar from '@/components/common/ProgressBar';
 import Toast from '@/components/common/Toast';
+import { getLocalStorage, setLocalStorage, STORAGE_KEYS } from '@/lib/ui/localStore';
+import type { SearchScope } from '@/lib/scope';
 
 interface ChatPanelProps {
   selectedConversationId: number | null;
   onOpenSettings: () => void;
   onNewChat: () => void;
   onConversationCreated: (id: number) => void;
+  // Viewer role in the active workspace: ask questions, no uploads or edits
+  readOnly?: boolean;
 }
 
 export default function ChatPanel({ 
   selectedConversationId, 
   onOpenSettings,
   onNewChat,
-  onConversationCreated
+  onConversationCreated,
+  readOnly
 }: ChatPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isTyping, setIsTyping] = useState(false);
@@ -28,7 +37,19 @@ export default function ChatPanel({
   const [lastUserMessage, setLastUserMessage] = useState<string>('');
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
+  // Progress of background document ingestion (reported by InputBar)
+  const [ingestProgress, setIngestProgress] = useState<{ progress: number; label: string } | null>(null);
+  // Bumped to make the index status banner re-check for stale documents
+  const [indexRefreshKey, setIndexRefreshKey] = useState(0);
+  // Documents searched by questions (this chat unless changed)
+  const [scope, setScope] = useState<SearchScope>({ type: 'conversation' });
+  const [documentsOpen, setDocumentsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  // Citation opened in the source panel
+  const [openSource, setOpenSource] = useState<MessageCitation | null>(null);
   const streamedContentRef = useRef<string>('');
+  // Model reported by the server for the answer being streamed
+  const streamedModelRef = useRef<string>('');
   
   const isDraft = selectedConversationId === null;
 
@@ -37,6 +58,26 @@ export default function ChatPanel({
     console.log('[ChatPanel] messages state changed, now has', messages.length, 'messages');
   }, [messages]);
 
+  // Restore the last search scope
+  useEffect(() => {
+    setScope(getLocalStorage<SearchScope>(STORAGE_KEYS.SEARCH_SCOPE, { type: 'conversation' }));
+  }, []);
+
+  const handleScopeChange = useCallback((next: SearchScope) => {
+    setScope(next);
+    setLocalStorage(STORAGE_KEYS.SEARCH_SCOPE, next);
+  }, []);
+
+  // Listen for ingestion progress from InputBar
+  useEffect(() => {
+    const handleIngestProgress = (e: Event) => {
+      setIngestProgress((e as CustomEvent).detail);
+    };
+
+    window.addEventListener('ingest-progress', handleIngestProgress);
+    return () => window.removeEventListener('ingest-progress', handleIngestProgress);
+  }, []);
+
   // Listen for auto-send-files event from InputBar
   useEffect(() => {
     const handleAutoSendFiles = async (e: Event) => {
@@ -129,6 +170,8 @@ export default function ChatPanel({
               timestamp: new Date(msg.createdAt),
               status: 'delivered' as const,
               attachments: msg.attachments,
+              sources: msg.sources,
+              model: msg.model,
             }));
             console.log('[ChatPanel] Mapped messages:', loadedMessages);
             console.log('[ChatPanel] Setting', loadedMessages.length, 'messages for conversation:', selectedConversationId);
@@ -216,12 +259,23 @@ export default function ChatPanel({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ question: content, conversationId: activeConversationId }),
+        body: JSON.stringify({
+          question: content,
+          conversationId: activeConversationId,
+          // Model picked in the settings drawer ('' = server default)
+          model: getLocalStorage(STORAGE_KEYS.MODEL, '') || undefined,
+          // Selected chats must not be empty; fall back to this chat
+          scope: scope.type === 'conversations' && scope.conversationIds.length === 0 ? undefined : scope,
+        }),
         signal: controller.signal,
       });
 
       if (!response.ok) {
         const data = await response.json().catch(() => ({ error: 'Failed to get answer' }));
+        if (response.status === 422) {
+          // Nothing retrievable: documents may need re-embedding
+          setIndexRefreshKey((key) => key + 1);
+        }
         throw new Error(data.error || 'Failed to get answer');
       }
 
@@ -242,6 +296,7 @@ export default function ChatPanel({
 
       let buffer = '';
       streamedContentRef.current = ''; // Reset ref
+      streamedModelRef.current = '';
 
       while (true) {
         const { done, value } = await reader.read();
@@ -258,7 +313,20 @@ export default function ChatPanel({
           try {
             const data = JSON.parse(line);
 
-            if (data.type === 'delta') {
+            if (data.type === 'sources') {
+              // Attach citations and the answering model to the streaming answer
+              streamedModelRef.current = data.model || '';
+              if (data.staleDocuments?.length > 0) {
+                setIndexRefreshKey((key) => key + 1);
+              }
+              setMessages((prev) =>
+                prev.map((msg) =>
+                  msg.id === assistantMessageId
+                    ? { ...msg, sources: data.sources, model: data.model }
+                    : msg
+                )
+              );
+            } else if (data.type === 'delta') {
               // Append streamed chunk to message and ref
               streamedContentRef.current += data.delta;
               const currentContent = streamedContentRef.current;
@@ -293,6 +361,8 @@ export default function ChatPanel({
               timestamp: new Date(msg.createdAt),
               status: 'delivered' as const,
               attachments: msg.attachments,
+              sources: msg.sources,
+              model: msg.model,
             }));
             setMessages(loadedMessages);
             console.log('[ChatPanel] Reloaded messages from database after streaming');
@@ -318,6 +388,7 @@ export default function ChatPanel({
                 question: content,
                 answer: partialAnswer,
                 conversationId: activeConversationId,
+                model: streamedModelRef.current,
               }),
             });
             console.log('[ChatPanel] Saved partial messages after abort');
@@ -333,6 +404,8 @@ export default function ChatPanel({
                 timestamp: new Date(msg.createdAt),
                 status: 'delivered' as const,
                 attachments: msg.attachments,
+                sources: msg.sources,
+                model: msg.model,
               }));
               setMessages(loadedMessages);
             }
@@ -366,7 +439,7 @@ export default function ChatPanel({
       setInFlightRequest(false);
       setAbortController(null);
     }
-  }, [selectedConversationId, isDraft, onConversationCreated]);
+  }, [selectedConversationId, isDraft, onConversationCreated, scope]);
 
   const handleRegenerate = useCallback(() => {
     if (lastUserMessage) {
@@ -407,9 +480,34 @@ export default function ChatPanel({
   return (
     <>
       <div style={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
-        <HeaderBar />
-        <ProgressBar visible={inFlightRequest} />
-        <MessageList messages={messages} />
+        <HeaderBar
+          onOpenDocuments={() => setDocumentsOpen(true)}
+          onOpenShare={isDraft ? undefined : () => setShareOpen(true)}
+          onExport={
+            isDraft
+              ? undefined
+              : (format) => {
+                  // The route answers with Content-Disposition: attachment, so the page stays
+                  window.location.href = `/api/conversations/${selectedConversationId}/export?format=${format}`;
+                }
+          }
+        />
+        <ProgressBar
+          visible={inFlightRequest || ingestProgress !== null}
+          progress={inFlightRequest ? undefined : ingestProgress?.progress}
+          label={inFlightRequest ? undefined : ingestProgress?.label}
+        />
+        <IndexStatusBanner
+          conversationId={selectedConversationId}
+          refreshKey={indexRefreshKey}
+          showToast={showToast}
+          readOnly={readOnly}
+        />
+        <MessageList
+          messages={messages}
+          conversationId={selectedConversationId}
+          onOpenSource={setOpenSource}
+        />
         {isTyping && <TypingIndicator />}
         
         {/* Stop button shown while streaming */}
@@ -444,6 +542,9 @@ export default function ChatPanel({
           onUpload={handleUpload}
           showToast={showToast}
           disabled={inFlightRequest}
+          scope={scope}
+          onScopeChange={handleScopeChange}
+          readOnly={readOnly}
           onEnsureConversation={async () => {
             // Create conversation if in draft mode
             if (isDraft) {
@@ -469,6 +570,28 @@ export default function ChatPanel({
         />
       </div>
 
+      <DocumentsPanel
+        isOpen={documentsOpen}
+        onClose={() => {
+          setDocumentsOpen(false);
+          // Deletions and moves can change what is indexed
+          setIndexRefreshKey((key) => key + 1);
+        }}
+        conversationId={selectedConversationId}
+        showToast={showToast}
+        readOnly={readOnly}
+      />
+
+      <SharePanel
+        isOpen={shareOpen}
+        onClose={() => setShareOpen(false)}
+        conversationId={selectedConversationId}
+        showToast={showToast}
+        readOnly={readOnly}
+      />
+
+      <SourcePanel source={openSource} onClose={() => setOpenSource(null)} />
+
       {toast && (
         <div style={{
           position: 'fixed',
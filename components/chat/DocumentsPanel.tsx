@@ -0,0 +1,260 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import styles from '@/styles/chat.module.css';
+
+interface DocumentItem {
+  id: number;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+  conversationId: number | null;
+  conversationTitle: string | null;
+  chunkCount: number;
+  embedModels: Array<{ model: string; chunks: number }>;
+  ingest: { jobId: number; status: string; progress: number; error: string | null } | null;
+  duplicateOf: number | null;
+  refCount: number;
+  ocrPages: Array<{ page: number; confidence: number }> | null;
+}
+
+interface ConversationOption {
+  id: number;
+  title: string;
+}
+
+interface DocumentsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversationId: number | null;
+  showToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+  // Viewer role: list only, no rename, move or delete
+  readOnly?: boolean;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * One line describing how far a document got through ingestion
+ */
+function describeIndex(doc: DocumentItem): string {
+  if (doc.ingest && doc.ingest.status !== 'done') {
+    if (doc.ingest.status === 'failed') return `Failed: ${doc.ingest.error || 'unknown error'}`;
+    return `${doc.ingest.status} ${Math.round(doc.ingest.progress * 100)}%`;
+  }
+  const models = doc.embedModels.map((m) => m.model).join(', ');
+  const shared = doc.refCount > 1 ? ` · shared by ${doc.refCount} uploads` : '';
+  const ocr = doc.ocrPages?.length
+    ? ` · OCR ${doc.ocrPages.length} page${doc.ocrPages.length !== 1 ? 's' : ''} (${Math.round(
+        doc.ocrPages.reduce((sum, p) => sum + p.confidence, 0) / doc.ocrPages.length
+      )}% confidence)`
+    : '';
+  return `${doc.chunkCount} chunks${models ? ` · ${models}` : ' · not embedded'}${shared}${ocr}`;
+}
+
+/**
+ * Drawer listing the documents of the current chat with rename, move and delete
+ */
+export default function DocumentsPanel({ isOpen, onClose, conversationId, showToast, readOnly }: DocumentsPanelProps) {
+  const [documents, setDocuments] = useState<DocumentItem[]>([]);
+  const [conversations, setConversations] = useState<ConversationOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadDocuments = useCallback(async () => {
+    if (conversationId === null) {
+      setDocuments([]);
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/documents?conversationId=${conversationId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDocuments(data.documents || []);
+      }
+    } catch (error) {
+      console.error('[DocumentsPanel] Failed to load documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadDocuments();
+
+    // Conversations a document can be moved to
+    fetch('/api/conversations?limit=50')
+      .then((res) => res.json())
+      .then((data) => setConversations(data.conversations || []))
+      .catch((error) => console.error('[DocumentsPanel] Failed to load conversations:', error));
+  }, [isOpen, loadDocuments]);
+
+  // Refresh when uploads finish
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleIngestProgress = (e: Event) => {
+      if ((e as CustomEvent).detail === null) loadDocuments();
+    };
+
+    window.addEventListener('ingest-progress', handleIngestProgress);
+    return () => window.removeEventListener('ingest-progress', handleIngestProgress);
+  }, [isOpen, loadDocuments]);
+
+  useEffect(() => {
+    // Close on Escape key
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  const updateDocument = async (doc: DocumentItem, body: { filename?: string; conversationId?: number }) => {
+    try {
+      const response = await fetch(`/api/documents/${doc.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update document');
+      }
+
+      if (data.conversationId !== conversationId) {
+        // Moved away from this chat
+        setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+        showToast(`Moved ${data.filename} to "${data.conversationTitle}"`, 'success');
+      } else {
+        setDocuments((prev) => prev.map((d) => (d.id === doc.id ? data : d)));
+      }
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update document', 'error');
+    }
+  };
+
+  const handleRename = (doc: DocumentItem) => {
+    const filename = prompt('Rename document:', doc.filename);
+    if (filename === null || filename.trim() === doc.filename) {
+      return;
+    }
+    updateDocument(doc, { filename });
+  };
+
+  const handleMove = (doc: DocumentItem, target: string) => {
+    const targetId = parseInt(target, 10);
+    if (isNaN(targetId) || targetId === doc.conversationId) {
+      return;
+    }
+    updateDocument(doc, { conversationId: targetId });
+  };
+
+  const handleDelete = async (doc: DocumentItem) => {
+    const message =
+      doc.refCount > 1
+        ? `Delete "${doc.filename}" from this chat? Other chats with the same file keep its index.`
+        : `Delete "${doc.filename}"? Its chunks, embeddings and stored file will be removed.`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/documents/${doc.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete document');
+      }
+      setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+      showToast(`Deleted ${doc.filename}`, 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to delete document', 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className={styles.drawerOverlay} onClick={onClose} aria-hidden="true" />
+      <div className={styles.drawer} role="dialog" aria-modal="true" aria-label="Documents">
+        <div className={styles.drawerHeader}>
+          <h2 className={styles.drawerTitle}>Documents</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className={styles.drawerClose}
+            aria-label="Close documents"
+          >
+            ✕
+          </button>
+        </div>
+        <div className={styles.drawerContent}>
+          {conversationId === null ? (
+            <p className={styles.documentEmpty}>Upload a file or ask a question to start a chat.</p>
+          ) : loading && documents.length === 0 ? (
+            <p className={styles.documentEmpty}>Loading...</p>
+          ) : documents.length === 0 ? (
+            <p className={styles.documentEmpty}>No documents in this chat yet.</p>
+          ) : (
+            <ul className={styles.documentList}>
+              {documents.map((doc) => (
+                <li key={doc.id} className={styles.documentItem}>
+                  <div className={styles.documentName} title={doc.filename}>
+                    📄 {doc.filename}
+                  </div>
+                  <div className={styles.documentMeta}>
+                    {formatFileSize(doc.sizeBytes)} · {describeIndex(doc)}
+                  </div>
+                  {!readOnly && (
+                    <div className={styles.documentActions}>
+                      <button
+                        type="button"
+                        onClick={() => handleRename(doc)}
+                        className={styles.documentAction}
+                        aria-label={`Rename ${doc.filename}`}
+                      >
+                        Rename
+                      </button>
+                      <select
+                        value=""
+                        onChange={(e) => handleMove(doc, e.target.value)}
+                        className={styles.documentAction}
+                        aria-label={`Move ${doc.filename} to another chat`}
+                      >
+                        <option value="">Move to…</option>
+                        {conversations
+                          .filter((c) => c.id !== doc.conversationId)
+                          .map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.title}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(doc)}
+                        className={styles.documentAction}
+                        aria-label={`Delete ${doc.filename}`}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
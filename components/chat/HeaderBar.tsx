@@ -1,14 +1,68 @@
 'use client';
 
+import type { ExportFormat } from '@/lib/export';
 import styles from '@/styles/chat.module.css';
 
-interface HeaderBarProps {}
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  md: 'Markdown',
+  json: 'JSON',
+  pdf: 'PDF',
+};
 
-export default function HeaderBar({}: HeaderBarProps) {
+interface HeaderBarProps {
+  // Opens the documents panel (button hidden when omitted)
+  onOpenDocuments?: () => void;
+  // Opens the share links panel (button hidden when omitted)
+  onOpenShare?: () => void;
+  // Downloads the conversation in a format (menu hidden when omitted)
+  onExport?: (format: ExportFormat) => void;
+}
+
+export default function HeaderBar({ onOpenDocuments, onOpenShare, onExport }: HeaderBarProps) {
   return (
     <header className={styles.header}>
       <h1 className={styles.headerTitle}>Second Brain</h1>
+      {(onOpenDocuments || onOpenShare || onExport) && (
+        <div className={styles.headerActions}>
+          {onExport && (
+            <select
+              value=""
+              onChange={(e) => onExport(e.target.value as ExportFormat)}
+              className={styles.quickAction}
+              aria-label="Export conversation"
+            >
+              <option value="" disabled>
+                ⬇ Export
+              </option>
+              {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {EXPORT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          )}
+          {onOpenShare && (
+            <button
+              type="button"
+              onClick={onOpenShare}
+              className={styles.quickAction}
+              aria-label="Share conversation"
+            >
+              🔗 Share
+            </button>
+          )}
+          {onOpenDocuments && (
+            <button
+              type="button"
+              onClick={onOpenDocuments}
+              className={styles.quickAction}
+              aria-label="Show documents"
+            >
+              📄 Documents
+            </button>
+          )}
+        </div>
+      )}
     </header>
   );
 }
-
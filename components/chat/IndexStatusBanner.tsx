@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// How often index status is polled while documents are being re-embedded
+const POLL_MS = 2000;
+
+interface StaleDocument {
+  documentId: number;
+  filename: string;
+  reason: 'not-indexed' | 'stale-model';
+  embeddedWith: string | null;
+}
+
+interface IndexStatus {
+  model: string;
+  total: number;
+  stale: StaleDocument[];
+  indexing: number[];
+}
+
+interface IndexStatusBannerProps {
+  conversationId: number | null;
+  // Bumped by the parent when an answer reports stale documents
+  refreshKey: number;
+  showToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+  // Viewer role: warn only, re-embedding needs an editor
+  readOnly?: boolean;
+}
+
+/**
+ * Warns when documents of the conversation are not embedded with the active
+ * embedding model (similarity search skips them) and offers to re-embed them
+ */
+export default function IndexStatusBanner({ conversationId, refreshKey, showToast, readOnly }: IndexStatusBannerProps) {
+  const [status, setStatus] = useState<IndexStatus | null>(null);
+  const [reembedding, setReembedding] = useState(false);
+
+  const loadStatus = useCallback(async (): Promise<IndexStatus | null> => {
+    if (conversationId === null) return null;
+    try {
+      const res = await fetch(`/api/reembed?conversationId=${conversationId}`);
+      if (!res.ok) return null;
+      const data: IndexStatus = await res.json();
+      setStatus(data);
+      return data;
+    } catch (error) {
+      console.error('[IndexStatusBanner] Failed to load index status:', error);
+      return null;
+    }
+  }, [conversationId]);
+
+  // Load on conversation change and when the parent asks for a refresh
+  useEffect(() => {
+    setStatus(null);
+    setReembedding(false);
+    loadStatus();
+  }, [loadStatus, refreshKey]);
+
+  // Uploads finishing can change the status too
+  useEffect(() => {
+    const handleIngestProgress = (e: Event) => {
+      if ((e as CustomEvent).detail === null) loadStatus();
+    };
+
+    window.addEventListener('ingest-progress', handleIngestProgress);
+    return () => window.removeEventListener('ingest-progress', handleIngestProgress);
+  }, [loadStatus]);
+
+  // Poll while re-embed jobs run
+  useEffect(() => {
+    if (!reembedding) return;
+
+    const timer = setInterval(async () => {
+      const next = await loadStatus();
+      if (next && next.indexing.length === 0) {
+        setReembedding(false);
+        if (next.stale.length === 0) {
+          showToast('Documents re-embedded', 'success');
+        } else {
+          showToast(`${next.stale.length} document(s) could not be re-embedded`, 'error');
+        }
+      }
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [reembedding, loadStatus, showToast]);
+
+  const handleReembed = async () => {
+    if (conversationId === null) return;
+    try {
+      const res = await fetch('/api/reembed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start re-embedding');
+      }
+      setReembedding(true);
+      showToast(`Re-embedding ${data.queued.length + data.inProgress} document(s) with ${data.model}`, 'info');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to start re-embedding', 'error');
+    }
+  };
+
+  if (!status || (status.stale.length === 0 && !reembedding)) {
+    return null;
+  }
+
+  const staleModels = Array.from(
+    new Set(status.stale.map((doc) => doc.embeddedWith).filter((model): model is string => !!model))
+  );
+
+  return (
+    <div
+      role="status"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.75rem',
+        padding: '8px 12px',
+        margin: '0.5rem 1rem 0',
+        backgroundColor: '#fff3cd',
+        border: '1px solid #ffc107',
+        borderRadius: '4px',
+        fontSize: '14px',
+        color: '#856404',
+      }}
+    >
+      <span style={{ flex: 1 }}>
+        {reembedding ? (
+          <>🔁 Re-embedding documents with <strong>{status.model}</strong>…</>
+        ) : (
+          <>
+            ⚠️ <strong>{status.stale.length} of {status.total}</strong> document{status.total !== 1 ? 's are' : ' is'} not
+            indexed for <strong>{status.model}</strong>
+            {staleModels.length > 0 && <> (embedded with {staleModels.join(', ')})</>} and skipped by search:{' '}
+            {status.stale.map((doc) => doc.filename).join(', ')}
+          </>
+        )}
+      </span>
+      {!reembedding && !readOnly && (
+        <button
+          type="button"
+          onClick={handleReembed}
+          style={{
+            padding: '0.25rem 0.75rem',
+            background: '#856404',
+            color: 'white',
+            border: 'none',
+            borderRadius: '0.375rem',
+            cursor: 'pointer',
+            fontWeight: 500,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          Re-embed
+        </button>
+      )}
+    </div>
+  );
+}
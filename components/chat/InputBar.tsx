@@ -1,7 +1,12 @@
 'use client';
 
 import { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import { ALLOWED_EXTENSIONS, ALLOWED_MIME } from '@/lib/constants';
+import type { SearchScope } from '@/lib/scope';
+import type { OcrMode } from '@/lib/ocr';
+import { getLocalStorage, setLocalStorage, STORAGE_KEYS } from '@/lib/ui/localStore';
 import styles from '@/styles/chat.module.css';
+import ScopeSelector from './ScopeSelector';
 
 interface InputBarProps {
   conversationId: number | null;
@@ -10,10 +15,100 @@ interface InputBarProps {
   showToast: (message: string, type?: 'success' | 'error' | 'info') => void;
   disabled?: boolean;
   onEnsureConversation?: () => Promise<number | null>;
+  // Which documents questions search
+  scope: SearchScope;
+  onScopeChange: (scope: SearchScope) => void;
+  // Viewer role: questions only, no uploads
+  readOnly?: boolean;
 }
 
 const MAX_FILES = 10;
 
+// How often upload progress is polled while documents are ingested
+const INGEST_POLL_MS = 1000;
+
+// Stage labels for ingestion progress
+const STAGE_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  chunking: 'Chunking',
+  embedding: 'Embedding',
+};
+
+interface UploadedFile {
+  filename: string;
+  sizeBytes: number;
+  // Ingestion job to wait for (null when a deduplicated upload is already indexed)
+  jobId: number | null;
+}
+
+interface IngestJobStatus {
+  id: number;
+  status: string;
+  progress: number;
+  error: string | null;
+  finished: boolean;
+}
+
+/**
+ * Broadcast ingestion progress to the ProgressBar (null clears it)
+ */
+function dispatchIngestProgress(detail: { progress: number; label: string } | null) {
+  window.dispatchEvent(new CustomEvent('ingest-progress', { detail }));
+}
+
+/**
+ * Poll ingestion jobs until all of them are done or failed, reporting overall progress
+ */
+async function waitForIngestion(uploads: UploadedFile[]): Promise<Map<number, IngestJobStatus>> {
+  const statuses = new Map<number, IngestJobStatus>();
+  const files = uploads.filter((f): f is UploadedFile & { jobId: number } => f.jobId !== null);
+  if (files.length === 0) return statuses;
+
+  while (true) {
+    const pending = files.filter((f) => !statuses.get(f.jobId)?.finished);
+    if (pending.length === 0) break;
+
+    await Promise.all(
+      pending.map(async (file) => {
+        try {
+          const res = await fetch(`/api/ingest/${file.jobId}`);
+          if (res.ok) {
+            statuses.set(file.jobId, await res.json());
+          } else if (res.status === 404) {
+            statuses.set(file.jobId, { id: file.jobId, status: 'failed', progress: 0, error: 'Upload was removed', finished: true });
+          }
+        } catch (error) {
+          console.error('[InputBar] Failed to poll ingest job:', error);
+        }
+      })
+    );
+
+    const progress = files.reduce((sum, f) => sum + (statuses.get(f.jobId)?.progress ?? 0), 0) / files.length;
+    const active = files.map((f) => statuses.get(f.jobId)).find((s) => s && !s.finished);
+    const stage = STAGE_LABELS[active?.status || 'queued'] || 'Processing';
+    dispatchIngestProgress({
+      progress,
+      label: `${stage} ${files.length > 1 ? `${files.length} files` : files[0].filename}… ${Math.round(progress * 100)}%`,
+    });
+
+    if (files.some((f) => !statuses.get(f.jobId)?.finished)) {
+      await new Promise((resolve) => setTimeout(resolve, INGEST_POLL_MS));
+    }
+  }
+
+  dispatchIngestProgress(null);
+  return statuses;
+}
+
+// Value for the file input's accept attribute
+const ACCEPT = [...ALLOWED_EXTENSIONS, ...ALLOWED_MIME].join(',');
+
+function isSupportedFile(file: File): boolean {
+  const ext = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+  return ALLOWED_EXTENSIONS.includes(ext) || ALLOWED_MIME.includes(file.type);
+}
+
 const QUICK_PROMPTS = [
   'Summarize my latest PDF',
   'List key terms',
@@ -22,18 +117,32 @@ const QUICK_PROMPTS = [
   'Find relevant sections',
 ];
 
-export default function InputBar({ conversationId, onSend, onUpload, showToast, disabled, onEnsureConversation }: InputBarProps) {
+export default function InputBar({
+  conversationId,
+  onSend,
+  onUpload,
+  showToast,
+  disabled,
+  onEnsureConversation,
+  scope,
+  onScopeChange,
+  readOnly,
+}: InputBarProps) {
   const [input, setInput] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [pendingAttachments, setPendingAttachments] = useState<{ filename: string; sizeBytes: number }[]>([]);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const uploadsDisabled = isDemoMode || !!readOnly;
+  // OCR for scanned PDF pages, sent with each upload
+  const [ocrMode, setOcrMode] = useState<OcrMode>('auto');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     // Auto-focus on mount
     textareaRef.current?.focus();
+    setOcrMode(getLocalStorage<OcrMode>(STORAGE_KEYS.OCR_MODE, 'auto'));
     
     // Check if running in demo mode
     fetch('/api/env')
@@ -109,11 +218,11 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
     }
 
     setIsUploading(true);
-    const newAttachments: { filename: string; sizeBytes: number }[] = [];
+    const uploaded: UploadedFile[] = [];
 
     for (const file of selected) {
-      if (file.type !== 'application/pdf') {
-        showToast(`Skipped non-PDF: ${file.name}`, 'error');
+      if (!isSupportedFile(file)) {
+        showToast(`Skipped unsupported file: ${file.name}`, 'error');
         continue;
       }
 
@@ -121,6 +230,7 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
         const formData = new FormData();
         formData.append('file', file);
         formData.append('conversationId', String(activeConversationId));
+        formData.append('ocr', ocrMode);
 
         const res = await fetch('/api/upload', { method: 'POST', body: formData });
         const json = await res.json();
@@ -130,19 +240,44 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
           continue;
         }
 
-        // Add to pending attachments to be sent with next message
-        newAttachments.push({
+        // Identical file already in this chat: nothing new to announce
+        if (json.duplicate === 'conversation') {
+          showToast(`${file.name} is already in this chat`, 'info');
+          continue;
+        }
+
+        // Ingestion runs in the background; track its job
+        uploaded.push({
           filename: json.filename,
           sizeBytes: json.sizeBytes,
+          jobId: json.jobId,
         });
-        
-        // Show simple success message
-        showToast('Successfully uploaded', 'success');
       } catch (error) {
         showToast(`Failed upload: ${file.name}`, 'error');
       }
     }
 
+    // Wait for extraction and embedding to finish before announcing the files
+    const newAttachments: { filename: string; sizeBytes: number }[] = [];
+    if (uploaded.length > 0) {
+      const statuses = await waitForIngestion(uploaded);
+
+      for (const file of uploaded) {
+        const job = file.jobId !== null ? statuses.get(file.jobId) : null;
+        if (file.jobId === null || job?.status === 'done') {
+          // Add to pending attachments to be sent with next message
+          newAttachments.push({ filename: file.filename, sizeBytes: file.sizeBytes });
+        } else {
+          showToast(`Failed to process ${file.filename}: ${job?.error ?? 'unknown error'}`, 'error');
+        }
+      }
+
+      if (newAttachments.length > 0) {
+        // Show simple success message
+        showToast('Successfully uploaded', 'success');
+      }
+    }
+
     // Add all successfully uploaded files to pending attachments
     if (newAttachments.length > 0) {
       setPendingAttachments((prev) => [...prev, ...newAttachments]);
@@ -226,6 +361,11 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
           📖 <strong>Demo Mode:</strong> File uploads are disabled. You can explore the pre-loaded documents.
         </div>
       )}
+      {!isDemoMode && readOnly && (
+        <div className={styles.uploadedFilesLabel} style={{ marginBottom: '8px' }}>
+          👁️ You are a viewer in this workspace: ask questions about its documents, uploads are disabled.
+        </div>
+      )}
       
       {/* Pending Attachments - shown only when files uploaded but message not sent yet */}
       {pendingAttachments.length > 0 && (
@@ -268,15 +408,21 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
             onClick={handleAttachClick}
             className={styles.inputButton}
             aria-label="Add files"
-            title={isDemoMode ? "Uploads disabled in demo mode" : "Add PDF files (up to 10)"}
-            disabled={disabled || isUploading || isDemoMode}
+            title={
+              isDemoMode
+                ? "Uploads disabled in demo mode"
+                : readOnly
+                  ? "Viewers cannot upload to this workspace"
+                  : "Add PDF, Markdown, text, HTML or DOCX files (up to 10)"
+            }
+            disabled={disabled || isUploading || uploadsDisabled}
           >
             +
           </button>
           <input
             ref={fileInputRef}
             type="file"
-            accept="application/pdf"
+            accept={ACCEPT}
             multiple
             onChange={handleFileSelect}
             style={{ display: 'none' }}
@@ -294,6 +440,36 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
         </div>
       </div>
 
+      <ScopeSelector
+        scope={scope}
+        onChange={onScopeChange}
+        conversationId={conversationId}
+        disabled={disabled}
+      />
+
+      {!uploadsDisabled && (
+        <div className={styles.scopeSelector}>
+          <label className={styles.scopeLabel} title="Recognize text in scanned PDF pages">
+            🔤 OCR
+            <select
+              value={ocrMode}
+              onChange={(e) => {
+                const mode = e.target.value as OcrMode;
+                setOcrMode(mode);
+                setLocalStorage(STORAGE_KEYS.OCR_MODE, mode);
+              }}
+              disabled={isUploading}
+              className={styles.scopeSelect}
+              aria-label="OCR for uploads"
+            >
+              <option value="auto">Pages without text</option>
+              <option value="force">Every page</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+        </div>
+      )}
+
       <div className={styles.quickActions}>
         {QUICK_PROMPTS.map((prompt) => (
           <button
@@ -308,16 +484,16 @@ export default function InputBar({ conversationId, onSend, onUpload, showToast,
         ))}
       </div>
 
-      {!isDemoMode && (
+      {!uploadsDisabled && (
         <div
           className={`${styles.dragDropArea} ${isDragging ? styles.active : ''}`}
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
           style={{ display: isDragging ? 'block' : 'none' }}
-          aria-label="Drop PDF files here"
+          aria-label="Drop files here"
         >
-          Drop PDF files here to upload (up to 10 files)
+          Drop PDF, Markdown, text, HTML or DOCX files here (up to 10 files)
         </div>
       )}
     </div>
@@ -3,6 +3,17 @@
 import { useState } from 'react';
 import styles from '@/styles/chat.module.css';
 
+export interface MessageCitation {
+  documentId: number;
+  chunkId: number;
+  filename: string;
+  chunkIndex: number;
+  page?: number | null;
+  // Conversation the cited document belongs to
+  conversationId?: number | null;
+  conversationTitle?: string | null;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
@@ -13,10 +24,17 @@ export interface Message {
     filename: string;
     sizeBytes: number;
   }[];
+  sources?: MessageCitation[];
+  // LLM that generated an assistant message
+  model?: string | null;
 }
 
 interface MessageListProps {
   messages: Message[];
+  // Conversation being shown (sources from other conversations name theirs)
+  conversationId?: number | null;
+  // Opens a cited chunk (citations are listed but not clickable when omitted)
+  onOpenSource?: (source: MessageCitation) => void;
 }
 
 function formatTimestamp(date: Date): string {
@@ -70,7 +88,7 @@ function renderCodeBlock(text: string): React.ReactNode {
   return parts.length > 0 ? parts : text;
 }
 
-export default function MessageList({ messages }: MessageListProps) {
+export default function MessageList({ messages, conversationId, onOpenSource }: MessageListProps) {
   const [reactions, setReactions] = useState<Record<string, 'like' | 'flag' | null>>({});
 
   const handleReaction = (messageId: string, reaction: 'like' | 'flag') => {
@@ -124,8 +142,32 @@ export default function MessageList({ messages }: MessageListProps) {
           <div className={styles.messageBubble}>
             {message.role === 'assistant' ? renderCodeBlock(message.content) : message.content}
           </div>
+          {message.role === 'assistant' && message.sources && message.sources.length > 0 && (
+            <div className={styles.messageSources} aria-label="Sources">
+              {message.sources.map((source) => {
+                const otherConversation =
+                  source.conversationId != null && source.conversationId !== conversationId
+                    ? source.conversationTitle || `chat ${source.conversationId}`
+                    : null;
+                return (
+                  <button
+                    type="button"
+                    key={`${source.chunkId}-${source.chunkIndex}`}
+                    className={styles.sourceChip}
+                    onClick={() => onOpenSource?.(source)}
+                    disabled={!onOpenSource}
+                    title={`${source.filename} (chunk ${source.chunkIndex})${otherConversation ? ` in "${otherConversation}"` : ''}`}
+                  >
+                    📄 {source.filename}{source.page ? ` · p. ${source.page}` : ''}
+                    {otherConversation && ` · 💬 ${otherConversation}`}
+                  </button>
+                );
+              })}
+            </div>
+          )}
           <div className={styles.messageMeta}>
             <span>{formatTimestamp(message.timestamp)}</span>
+            {message.role === 'assistant' && message.model && <span>• {message.model}</span>}
             {message.role === 'user' && message.status && (
               <span>• {message.status === 'delivered' ? '✓' : message.status === 'sending' ? '…' : '✗'}</span>
             )}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SearchScope } from '@/lib/scope';
+import styles from '@/styles/chat.module.css';
+
+interface ScopeSelectorProps {
+  scope: SearchScope;
+  onChange: (scope: SearchScope) => void;
+  conversationId: number | null;
+  disabled?: boolean;
+}
+
+interface ConversationOption {
+  id: number;
+  title: string;
+}
+
+interface TagOption {
+  tag: string;
+  conversations: number;
+}
+
+/**
+ * Value of the <select> for a scope ('tag:<name>' for tag scopes)
+ */
+function selectValue(scope: SearchScope): string {
+  if (scope.type === 'tags') return `tag:${scope.tags[0]}`;
+  return scope.type;
+}
+
+/**
+ * Picks which documents a question searches: this chat, every document,
+ * a set of chats, or the chats carrying a tag
+ */
+export default function ScopeSelector({ scope, onChange, conversationId, disabled }: ScopeSelectorProps) {
+  const [conversations, setConversations] = useState<ConversationOption[]>([]);
+  const [tags, setTags] = useState<TagOption[]>([]);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [conversationsRes, tagsRes] = await Promise.all([
+        fetch('/api/conversations?limit=50'),
+        fetch('/api/tags'),
+      ]);
+      if (conversationsRes.ok) {
+        const data = await conversationsRes.json();
+        setConversations(data.conversations || []);
+      }
+      if (tagsRes.ok) {
+        const data = await tagsRes.json();
+        setTags(data.tags || []);
+      }
+    } catch (error) {
+      console.error('[ScopeSelector] Failed to load scope options:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  // Conversations and tags change when chats are created, deleted or tagged
+  useEffect(() => {
+    window.addEventListener('refresh-conversations', loadOptions);
+    return () => window.removeEventListener('refresh-conversations', loadOptions);
+  }, [loadOptions]);
+
+  const handleSelect = (value: string) => {
+    if (value === 'conversation' || value === 'all') {
+      onChange({ type: value });
+    } else if (value === 'conversations') {
+      // Start from the current chat; more are ticked below
+      onChange({ type: 'conversations', conversationIds: conversationId !== null ? [conversationId] : [] });
+    } else if (value.startsWith('tag:')) {
+      onChange({ type: 'tags', tags: [value.slice('tag:'.length)] });
+    }
+  };
+
+  const toggleConversation = (id: number) => {
+    if (scope.type !== 'conversations') return;
+    const ids = scope.conversationIds.includes(id)
+      ? scope.conversationIds.filter((existing) => existing !== id)
+      : [...scope.conversationIds, id];
+    onChange({ type: 'conversations', conversationIds: ids });
+  };
+
+  // Keep a saved tag selectable even if no chat carries it any more
+  const tagOptions =
+    scope.type === 'tags' && !tags.some((t) => t.tag === scope.tags[0])
+      ? [...tags, { tag: scope.tags[0], conversations: 0 }]
+      : tags;
+
+  return (
+    <div className={styles.scopeSelector}>
+      <label className={styles.scopeLabel}>
+        🔎 Search
+        <select
+          value={selectValue(scope)}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className={styles.scopeSelect}
+          aria-label="Search scope"
+        >
+          <option value="conversation">This chat</option>
+          <option value="all">All documents</option>
+          <option value="conversations">Selected chats…</option>
+          {tagOptions.map((t) => (
+            <option key={t.tag} value={`tag:${t.tag}`}>
+              Tag: {t.tag} ({t.conversations})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {scope.type === 'conversations' && (
+        <div className={styles.scopeConversations} role="group" aria-label="Chats to search">
+          {conversations.length === 0 ? (
+            <span className={styles.scopeEmpty}>No saved chats</span>
+          ) : (
+            conversations.map((conv) => (
+              <label key={conv.id} className={styles.scopeConversation}>
+                <input
+                  type="checkbox"
+                  checked={scope.conversationIds.includes(conv.id)}
+                  onChange={() => toggleConversation(conv.id)}
+                  disabled={disabled}
+                />
+                {conv.title}
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ShareLinkSummary } from '@/lib/shares';
+import styles from '@/styles/chat.module.css';
+
+interface SharePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversationId: number | null;
+  showToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+  // Viewer role: list only, no creating or revoking
+  readOnly?: boolean;
+}
+
+// Expiry choices in days ('' = never)
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+];
+
+/**
+ * One line describing a link's settings and state
+ */
+function describeShare(share: ShareLinkSummary): string {
+  const state = share.revokedAt
+    ? `revoked ${new Date(share.revokedAt).toLocaleDateString()}`
+    : share.expiresAt
+      ? `${share.active ? 'expires' : 'expired'} ${new Date(share.expiresAt).toLocaleDateString()}`
+      : 'never expires';
+  const questions = share.allowQuestions ? 'follow-up questions allowed' : 'read-only';
+  const by = share.createdBy ? ` · by ${share.createdBy}` : '';
+  return `${questions} · ${state}${by}`;
+}
+
+/**
+ * Drawer for creating and revoking public share links of the current chat
+ */
+export default function SharePanel({ isOpen, onClose, conversationId, showToast, readOnly }: SharePanelProps) {
+  const [shares, setShares] = useState<ShareLinkSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expiry, setExpiry] = useState('');
+  const [allowQuestions, setAllowQuestions] = useState(false);
+  const [creating, setCreating] = useState(false);
+  // URL of the link just created (only shown once)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    if (conversationId === null) {
+      setShares([]);
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/conversations/${conversationId}/shares`);
+      if (response.ok) {
+        const data = await response.json();
+        setShares(data.shares || []);
+      }
+    } catch (error) {
+      console.error('[SharePanel] Failed to load share links:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCreatedUrl(null);
+    loadShares();
+  }, [isOpen, loadShares]);
+
+  useEffect(() => {
+    // Close on Escape key
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  const handleCreate = async () => {
+    if (conversationId === null) return;
+    setCreating(true);
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          expiresInDays: expiry ? parseInt(expiry, 10) : null,
+          allowQuestions,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create share link');
+      }
+
+      const { token: _token, url, ...share } = data;
+      setShares((prev) => [share, ...prev]);
+      setCreatedUrl(url);
+      try {
+        await navigator.clipboard.writeText(url);
+        showToast('Share link copied to clipboard', 'success');
+      } catch {
+        showToast('Share link created', 'success');
+      }
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create share link', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: ShareLinkSummary) => {
+    if (conversationId === null || !confirm('Revoke this link? Anyone using it will lose access.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/shares/${share.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke share link');
+      }
+      setShares((prev) => prev.map((s) => (s.id === share.id ? data : s)));
+      showToast('Share link revoked', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to revoke share link', 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className={styles.drawerOverlay} onClick={onClose} aria-hidden="true" />
+      <div className={styles.drawer} role="dialog" aria-modal="true" aria-label="Share">
+        <div className={styles.drawerHeader}>
+          <h2 className={styles.drawerTitle}>Share</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className={styles.drawerClose}
+            aria-label="Close share"
+          >
+            ✕
+          </button>
+        </div>
+        <div className={styles.drawerContent}>
+          {conversationId === null ? (
+            <p className={styles.documentEmpty}>Ask a question first: drafts cannot be shared.</p>
+          ) : (
+            <>
+              {!readOnly && (
+                <div className={styles.drawerSection}>
+                  <h3 className={styles.drawerSectionTitle}>New link</h3>
+                  <div className={styles.drawerOption}>
+                    <select
+                      value={expiry}
+                      onChange={(e) => setExpiry(e.target.value)}
+                      className={styles.drawerSelect}
+                      aria-label="Link expiry"
+                    >
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className={styles.drawerOption}>
+                    <label className={styles.drawerLabel}>
+                      <input
+                        type="checkbox"
+                        checked={allowQuestions}
+                        onChange={(e) => setAllowQuestions(e.target.checked)}
+                      />{' '}
+                      Allow follow-up questions against this chat&apos;s documents
+                    </label>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    className={styles.documentAction}
+                    disabled={creating}
+                  >
+                    {creating ? 'Creating...' : '🔗 Create link'}
+                  </button>
+                  {createdUrl && (
+                    <div className={styles.drawerOption}>
+                      <input
+                        type="text"
+                        readOnly
+                        value={createdUrl}
+                        onFocus={(e) => e.target.select()}
+                        className={styles.shareUrl}
+                        aria-label="Share URL"
+                      />
+                      <div className={styles.shareNotice}>Copy it now: the link is not shown again.</div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className={styles.drawerSection}>
+                <h3 className={styles.drawerSectionTitle}>Links</h3>
+                {loading && shares.length === 0 ? (
+                  <p className={styles.documentEmpty}>Loading...</p>
+                ) : shares.length === 0 ? (
+                  <p className={styles.documentEmpty}>This chat has not been shared.</p>
+                ) : (
+                  <ul className={styles.documentList}>
+                    {shares.map((share) => (
+                      <li key={share.id} className={styles.documentItem}>
+                        <div className={styles.documentName}>
+                          {share.active ? '🔗' : '⛔'} Created {new Date(share.createdAt).toLocaleString()}
+                        </div>
+                        <div className={styles.documentMeta}>{describeShare(share)}</div>
+                        {!readOnly && !share.revokedAt && (
+                          <div className={styles.documentActions}>
+                            <button
+                              type="button"
+                              onClick={() => handleRevoke(share)}
+                              className={styles.documentAction}
+                              aria-label={`Revoke link created ${new Date(share.createdAt).toLocaleString()}`}
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
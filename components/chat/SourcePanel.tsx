@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MessageCitation } from './MessageList';
+import PdfViewer from '@/components/viewer/PdfViewer';
+import styles from '@/styles/chat.module.css';
+
+interface ChunkView {
+  id: number;
+  chunkIndex: number;
+  text: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+  headingPath: string | null;
+}
+
+interface ChunkContext {
+  chunk: ChunkView;
+  document: {
+    id: number;
+    filename: string;
+    mimeType: string;
+    conversationId: number | null;
+    conversationTitle: string | null;
+  };
+  before: ChunkView[];
+  after: ChunkView[];
+}
+
+interface SourcePanelProps {
+  // Citation to show (panel closed when null)
+  source: MessageCitation | null;
+  onClose: () => void;
+}
+
+function formatPages(chunk: ChunkView): string | null {
+  if (!chunk.pageStart) return null;
+  if (!chunk.pageEnd || chunk.pageEnd === chunk.pageStart) return `p. ${chunk.pageStart}`;
+  return `pp. ${chunk.pageStart}–${chunk.pageEnd}`;
+}
+
+/**
+ * Side panel showing a cited chunk between its neighbours, with a link to the original file
+ */
+export default function SourcePanel({ source, onClose }: SourcePanelProps) {
+  const [context, setContext] = useState<ChunkContext | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Show the original PDF inside the panel
+  const [showViewer, setShowViewer] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+
+    let cancelled = false;
+    setContext(null);
+    setError(null);
+    setShowViewer(false);
+
+    const params = new URLSearchParams({
+      neighbors: '1',
+      documentId: String(source.documentId),
+      chunkIndex: String(source.chunkIndex),
+    });
+    fetch(`/api/chunks/${source.chunkId}?${params}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data.error || 'Failed to load source');
+        } else {
+          setContext(data);
+        }
+      })
+      .catch((err) => {
+        console.error('[SourcePanel] Failed to load chunk:', err);
+        if (!cancelled) setError('Failed to load source');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  useEffect(() => {
+    // Close on Escape key
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && source) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [source, onClose]);
+
+  if (!source) return null;
+
+  const page = context?.chunk.pageStart ?? source.page ?? null;
+  const isPdf = (context?.document.mimeType || '') === 'application/pdf';
+  const fileUrl = context ? `/api/documents/${context.document.id}/file` : '';
+
+  return (
+    <>
+      <div className={styles.drawerOverlay} onClick={onClose} aria-hidden="true" />
+      <div
+        className={`${styles.drawer} ${styles.sourcePanel} ${showViewer ? styles.sourcePanelWide : ''}`}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Source"
+      >
+        <div className={styles.drawerHeader}>
+          <h2 className={styles.drawerTitle} title={source.filename}>
+            📄 {context?.document.filename ?? source.filename}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className={styles.drawerClose}
+            aria-label="Close source"
+          >
+            ✕
+          </button>
+        </div>
+        <div className={styles.drawerContent}>
+          {error ? (
+            <p className={styles.documentEmpty}>{error}</p>
+          ) : !context ? (
+            <p className={styles.documentEmpty}>Loading...</p>
+          ) : (
+            <>
+              <div className={styles.documentMeta}>
+                Chunk {context.chunk.chunkIndex}
+                {formatPages(context.chunk) && ` · ${formatPages(context.chunk)}`}
+                {context.document.conversationTitle && ` · 💬 ${context.document.conversationTitle}`}
+              </div>
+              {context.chunk.headingPath && (
+                <div className={styles.sourceHeading}>{context.chunk.headingPath}</div>
+              )}
+
+              {context.before.map((chunk) => (
+                <p key={chunk.id} className={styles.sourceNeighbor}>{chunk.text}</p>
+              ))}
+              <p className={styles.sourceCited}>{context.chunk.text}</p>
+              {context.after.map((chunk) => (
+                <p key={chunk.id} className={styles.sourceNeighbor}>{chunk.text}</p>
+              ))}
+
+              {isPdf && (
+                <button
+                  type="button"
+                  onClick={() => setShowViewer((show) => !show)}
+                  className={styles.documentAction}
+                  style={{ marginRight: '0.75rem' }}
+                >
+                  {showViewer ? 'Hide PDF' : `View in PDF${page ? ` (p. ${page})` : ''}`}
+                </button>
+              )}
+              <a
+                href={`${fileUrl}${isPdf && page ? `#page=${page}` : ''}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={styles.sourceLink}
+              >
+                Open original ↗
+              </a>
+              {showViewer && (
+                <PdfViewer url={fileUrl} initialPage={page ?? 1} highlight={context.chunk.text} />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -4,15 +4,35 @@ import styles from '@/styles/chat.module.css';
 
 interface ProgressBarProps {
   visible: boolean;
+  // Completed fraction (0..1); omit for an indeterminate bar
+  progress?: number;
+  // Short description shown under the bar
+  label?: string;
 }
 
-export default function ProgressBar({ visible }: ProgressBarProps) {
+export default function ProgressBar({ visible, progress, label }: ProgressBarProps) {
   if (!visible) return null;
 
+  const determinate = typeof progress === 'number';
+  const percent = determinate ? Math.round(Math.min(1, Math.max(0, progress)) * 100) : undefined;
+
   return (
-    <div className={styles.progressBar} role="progressbar" aria-label="Processing request">
-      <div className={styles.progressBarFill} />
-    </div>
+    <>
+      <div
+        className={styles.progressBar}
+        role="progressbar"
+        aria-label={label || 'Processing request'}
+        aria-valuemin={determinate ? 0 : undefined}
+        aria-valuemax={determinate ? 100 : undefined}
+        aria-valuenow={percent}
+      >
+        {determinate ? (
+          <div className={styles.progressBarFillDeterminate} style={{ width: `${percent}%` }} />
+        ) : (
+          <div className={styles.progressBarFill} />
+        )}
+      </div>
+      {label && <div className={styles.progressBarLabel}>{label}</div>}
+    </>
   );
 }
-
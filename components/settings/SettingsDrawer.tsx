@@ -12,17 +12,55 @@ interface SettingsDrawerProps {
 export default function SettingsDrawer({ isOpen, onClose }: SettingsDrawerProps) {
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('light');
   const [fontSize, setFontSize] = useState(16);
-  const [model, setModel] = useState('llama3');
+  // '' = use the server's default model
+  const [model, setModel] = useState('');
+  const [models, setModels] = useState<string[]>([]);
+  const [defaultModel, setDefaultModel] = useState('');
+  const [modelsError, setModelsError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       // Load settings from localStorage
       setTheme(getLocalStorage(STORAGE_KEYS.THEME, 'light'));
       setFontSize(getLocalStorage(STORAGE_KEYS.FONT_SIZE, 16));
-      setModel(getLocalStorage(STORAGE_KEYS.MODEL, 'llama3'));
+      setModel(getLocalStorage(STORAGE_KEYS.MODEL, ''));
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Fetch the models the configured provider offers
+    let cancelled = false;
+    const loadModels = async () => {
+      try {
+        const response = await fetch('/api/models');
+        const data = await response.json();
+        if (cancelled) return;
+
+        const available: string[] = data.models || [];
+        setModels(available);
+        setDefaultModel(data.default || '');
+        setModelsError(response.ok ? null : data.error || 'Failed to list models');
+
+        // Drop a saved model the provider no longer offers (or that is the default)
+        const saved = getLocalStorage(STORAGE_KEYS.MODEL, '');
+        if (response.ok && saved && (saved === data.default || !available.includes(saved))) {
+          setModel('');
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setModelsError('Failed to list models');
+        }
+      }
+    };
+    loadModels();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
   useEffect(() => {
     // Apply theme
     if (theme === 'system') {
@@ -124,13 +162,20 @@ export default function SettingsDrawer({ isOpen, onClose }: SettingsDrawerProps)
                 onChange={(e) => setModel(e.target.value)}
                 aria-label="Model selection"
               >
-                <option value="llama3">Llama 3</option>
-                <option value="mistral">Mistral</option>
-                <option value="llama2">Llama 2</option>
+                <option value="">{defaultModel ? `Default (${defaultModel})` : 'Default'}</option>
+                {models
+                  .filter((m) => m !== defaultModel)
+                  .map((m) => (
+                    <option key={m} value={m}>
+                      {m}
+                    </option>
+                  ))}
               </select>
-              <p style={{ fontSize: '0.75rem', color: 'var(--muted)', marginTop: '0.5rem' }}>
-                Note: Changing model requires restarting the server
-              </p>
+              {modelsError && (
+                <p style={{ fontSize: '0.75rem', color: 'var(--muted)', marginTop: '0.5rem' }}>
+                  {modelsError}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,194 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import MessageList, { Message } from '@/components/chat/MessageList';
+import TypingIndicator from '@/components/chat/TypingIndicator';
+import styles from '@/styles/chat.module.css';
+
+interface SharedConversationProps {
+  // Token from the share URL
+  token: string;
+}
+
+interface ShareInfo {
+  title: string;
+  allowQuestions: boolean;
+  expiresAt: string | null;
+}
+
+/**
+ * Read-only view of a shared conversation, with an optional box for follow-up
+ * questions (answered from the conversation's documents, not saved)
+ */
+export default function SharedConversation({ token }: SharedConversationProps) {
+  const [share, setShare] = useState<ShareInfo | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/share/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Failed to load the shared conversation');
+          return;
+        }
+        setShare({ title: data.title, allowQuestions: data.share.allowQuestions, expiresAt: data.share.expiresAt });
+        setMessages(
+          data.messages.map((msg: any) => ({
+            id: `msg-${msg.id}`,
+            role: msg.role,
+            content: msg.content,
+            timestamp: new Date(msg.createdAt),
+            sources: msg.sources,
+            model: msg.model,
+          }))
+        );
+      })
+      .catch((err) => {
+        console.error('[Share] Failed to load conversation:', err);
+        setError('Could not reach the server');
+      });
+  }, [token]);
+
+  const handleAsk = async (e: FormEvent) => {
+    e.preventDefault();
+    const content = question.trim();
+    if (!content || asking) return;
+
+    const answerId = `shared-answer-${Date.now()}`;
+    setQuestion('');
+    setAsking(true);
+    setMessages((prev) => [
+      ...prev,
+      { id: `shared-question-${Date.now()}`, role: 'user', content, timestamp: new Date(), status: 'sending' },
+    ]);
+
+    const updateAnswer = (update: Partial<Message>) =>
+      setMessages((prev) => prev.map((msg) => (msg.id === answerId ? { ...msg, ...update } : msg)));
+
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/query-stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: content }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to get answer');
+      }
+
+      setMessages((prev) => [
+        ...prev.map((msg) => (msg.status === 'sending' ? { ...msg, status: 'delivered' as const } : msg)),
+        { id: answerId, role: 'assistant', content: '', timestamp: new Date() },
+      ]);
+
+      // NDJSON events, as sent by /api/query-stream
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let answer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.trim() === '') continue;
+          const data = JSON.parse(line);
+          if (data.type === 'sources') {
+            updateAnswer({ sources: data.sources, model: data.model });
+          } else if (data.type === 'delta') {
+            answer += data.delta;
+            updateAnswer({ content: answer });
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+    } catch (err: any) {
+      console.error('[Share] Follow-up failed:', err);
+      setMessages((prev) => [
+        ...prev
+          .filter((msg) => msg.id !== answerId)
+          .map((msg) => (msg.status === 'sending' ? { ...msg, status: 'error' as const } : msg)),
+        {
+          id: `shared-error-${Date.now()}`,
+          role: 'assistant',
+          content: `⚠️ ${err.message || 'Failed to get answer'}`,
+          timestamp: new Date(),
+        },
+      ]);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className={styles.authPage}>
+        <div className={styles.authCard}>
+          <h1 className={styles.authTitle}>Shared conversation</h1>
+          <div className={styles.authError} role="alert">
+            {error}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.chatContainer}>
+      <header className={styles.header}>
+        <h1 className={styles.headerTitle}>{share ? share.title : 'Loading...'}</h1>
+        {share && (
+          <span className={styles.shareNotice}>
+            🔗 Shared read-only
+            {share.expiresAt && ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+          </span>
+        )}
+      </header>
+
+      <MessageList messages={messages} />
+      {asking && messages[messages.length - 1]?.role === 'user' && <TypingIndicator />}
+
+      {share?.allowQuestions && (
+        <form className={styles.inputContainer} onSubmit={handleAsk}>
+          <div className={styles.inputWrapper}>
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleAsk(e);
+                }
+              }}
+              placeholder="Ask a follow-up question about these documents..."
+              disabled={asking}
+              rows={1}
+              className={styles.textarea}
+              aria-label="Follow-up question"
+            />
+            <div className={styles.inputActions}>
+              <button
+                type="submit"
+                className={`${styles.inputButton} ${styles.send}`}
+                disabled={!question.trim() || asking}
+              >
+                Ask
+              </button>
+            </div>
+          </div>
+          <div className={styles.shareNotice}>Follow-up answers are only shown to you and are not saved.</div>
+        </form>
+      )}
+    </div>
+  );
+}
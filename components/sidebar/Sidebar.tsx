@@ -1,16 +1,27 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import type { CurrentUser } from '@/lib/auth';
+import type { ActiveWorkspace } from '@/lib/workspaces';
 import styles from '@/styles/chat.module.css';
 
 interface Conversation {
   id: number;
   title: string;
+  tags: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+interface Workspace extends ActiveWorkspace {
+  members: number;
+}
+
+// Value of the workspace <select> option that creates a new workspace
+const NEW_WORKSPACE = 'new';
+
 interface SidebarProps {
+  user: CurrentUser;
   onNewChat: () => void;
   onOpenSettings: () => void;
   selectedConversationId: number | null;
@@ -19,6 +30,7 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ 
+  user,
   onNewChat, 
   onOpenSettings,
   selectedConversationId,
@@ -26,12 +38,22 @@ export default function Sidebar({
   onDeleteConversation,
 }: SidebarProps) {
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // Viewers can read and ask, but not rename, tag or delete
+  const canEdit = user.workspace.role !== 'viewer';
+  const isOwner = user.workspace.role === 'owner';
+
   const loadConversations = async () => {
     try {
       setLoading(true);
       const response = await fetch('/api/conversations?limit=50');
+      if (response.status === 401) {
+        // Session expired or ended elsewhere
+        window.location.href = '/login';
+        return;
+      }
       if (response.ok) {
         const data = await response.json();
         setConversations(data.conversations || []);
@@ -43,9 +65,22 @@ export default function Sidebar({
     }
   };
 
+  const loadWorkspaces = async () => {
+    try {
+      const response = await fetch('/api/workspaces');
+      if (response.ok) {
+        const data = await response.json();
+        setWorkspaces(data.workspaces || []);
+      }
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+  };
+
   useEffect(() => {
     // Always load conversations when component mounts
     loadConversations();
+    loadWorkspaces();
   }, []);
 
   // Listen for refresh events
@@ -59,6 +94,85 @@ export default function Sidebar({
     return () => window.removeEventListener('refresh-conversations', handleRefresh);
   }, [loadConversations]);
 
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    window.location.href = '/login';
+  };
+
+  const handleSwitchWorkspace = async (value: string) => {
+    try {
+      if (value === NEW_WORKSPACE) {
+        const name = prompt('Name of the new workspace:');
+        if (!name?.trim()) {
+          return;
+        }
+        // Creating a workspace also switches the session to it
+        const response = await fetch('/api/workspaces', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          alert(`Failed to create workspace: ${data.error || 'Unknown error'}`);
+          return;
+        }
+      } else {
+        const response = await fetch('/api/auth/session', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ workspaceId: parseInt(value, 10) }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          alert(`Failed to switch workspace: ${data.error || 'Unknown error'}`);
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to switch workspace:', error);
+      alert('Failed to switch workspace');
+      return;
+    }
+
+    // Full navigation: conversations, documents and role all change with the workspace
+    window.location.href = '/';
+  };
+
+  const handleAddMember = async () => {
+    const email = prompt(`Email of the account to add to "${user.workspace.name}":`);
+    if (!email?.trim()) {
+      return;
+    }
+    const role = prompt('Role (owner, editor or viewer):', 'editor');
+    if (role === null) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/workspaces/${user.workspace.id}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role: role.trim().toLowerCase() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        alert(`Added ${data.email} as ${data.role}`);
+        loadWorkspaces();
+      } else {
+        alert(`Failed to add member: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Failed to add member:', error);
+      alert('Failed to add member');
+    }
+  };
+
   const handleDeleteConversation = async (conversationId: number, title: string) => {
     if (!confirm(`Delete "${title}"? This will remove all messages and files in this chat.`)) {
       return;
@@ -87,6 +201,39 @@ export default function Sidebar({
     }
   };
 
+  const handleEditTags = async (conversation: Conversation) => {
+    const input = prompt(
+      `Tags for "${conversation.title}" (comma-separated, used as search collections):`,
+      (conversation.tags || []).join(', ')
+    );
+    if (input === null) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: input.split(',') }),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setConversations((prev) =>
+          prev.map((c) => (c.id === conversation.id ? { ...c, tags: updated.tags } : c))
+        );
+        // Let the search scope selector pick up new tags
+        window.dispatchEvent(new Event('refresh-conversations'));
+      } else {
+        const data = await response.json();
+        alert(`Failed to update tags: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      alert('Failed to update tags');
+    }
+  };
+
   const handleNewChat = () => {
     // Just switch to draft mode, no DB creation
     onNewChat();
@@ -108,6 +255,39 @@ export default function Sidebar({
             >
               + New Chat
             </button>
+
+            <div className={styles.workspaceSwitcher}>
+              <select
+                value={String(user.workspace.id)}
+                onChange={(e) => handleSwitchWorkspace(e.target.value)}
+                className={styles.workspaceSelect}
+                aria-label="Workspace"
+              >
+                {/* The active workspace is listed even before the list loads */}
+                {(workspaces.length > 0 ? workspaces : [user.workspace]).map((w) => (
+                  <option key={w.id} value={String(w.id)}>
+                    {w.name}
+                  </option>
+                ))}
+                <option value={NEW_WORKSPACE}>+ New workspace…</option>
+              </select>
+              {isOwner && (
+                <button
+                  type="button"
+                  onClick={handleAddMember}
+                  className={styles.inputButton}
+                  aria-label="Add member"
+                  title="Add member"
+                >
+                  👥
+                </button>
+              )}
+            </div>
+            <div className={styles.workspaceRole}>
+              {user.workspace.role === 'viewer'
+                ? 'Viewer: you can ask questions but not upload or delete'
+                : `Role: ${user.workspace.role}`}
+            </div>
           </div>
 
           <div className={styles.sidebarSection}>
@@ -146,32 +326,61 @@ export default function Sidebar({
                       onSelectConversation(conv.id);
                     }}
                     aria-label={`Open conversation: ${conv.title}`}
-                    style={{ flex: 1, paddingRight: '2.5rem' }}
+                    style={{ flex: 1, paddingRight: canEdit ? '4.5rem' : undefined }}
                   >
                     <span style={{ flex: 1, textAlign: 'left', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                       {conv.title}
+                      {conv.tags?.length > 0 && (
+                        <span style={{ display: 'block', fontSize: '0.7rem', color: 'var(--muted)', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                          {conv.tags.map((tag) => `#${tag}`).join(' ')}
+                        </span>
+                      )}
                     </span>
                   </button>
-                  <button
-                    type="button"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteConversation(conv.id, conv.title);
-                    }}
-                    className={styles.inputButton}
-                    aria-label={`Delete conversation: ${conv.title}`}
-                    title="Delete conversation"
-                    style={{
-                      position: 'absolute',
-                      right: '0.5rem',
-                      minWidth: '1.75rem',
-                      height: '1.75rem',
-                      padding: '0.25rem',
-                      fontSize: '0.875rem',
-                    }}
-                  >
-                    🗑️
-                  </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleEditTags(conv);
+                        }}
+                        className={styles.inputButton}
+                        aria-label={`Edit tags: ${conv.title}`}
+                        title="Edit tags"
+                        style={{
+                          position: 'absolute',
+                          right: '2.5rem',
+                          minWidth: '1.75rem',
+                          height: '1.75rem',
+                          padding: '0.25rem',
+                          fontSize: '0.875rem',
+                        }}
+                      >
+                        🏷️
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteConversation(conv.id, conv.title);
+                        }}
+                        className={styles.inputButton}
+                        aria-label={`Delete conversation: ${conv.title}`}
+                        title="Delete conversation"
+                        style={{
+                          position: 'absolute',
+                          right: '0.5rem',
+                          minWidth: '1.75rem',
+                          height: '1.75rem',
+                          padding: '0.25rem',
+                          fontSize: '0.875rem',
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </>
+                  )}
                 </div>
               ))
             )}
@@ -186,6 +395,17 @@ export default function Sidebar({
             >
               ⚙️ Settings
             </button>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className={styles.sidebarItem}
+              aria-label="Sign out"
+            >
+              🚪 Sign out
+            </button>
+            <div className={styles.sidebarUser} title={user.email}>
+              {user.name ? `${user.name} · ${user.email}` : user.email}
+            </div>
           </div>
         </div>
     </aside>
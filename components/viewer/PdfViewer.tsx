@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import styles from '@/styles/chat.module.css';
+
+interface PdfViewerProps {
+  // URL of the PDF (served with Range support so pages load on demand)
+  url: string;
+  // 1-based page to open
+  initialPage?: number;
+  // Passage to highlight on the page (e.g. the cited chunk's text)
+  highlight?: string;
+}
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Shortest text run that is highlighted (avoids marking stray words and numbers)
+const MIN_HIGHLIGHT_CHARS = 4;
+
+/**
+ * Collapse whitespace and case so extracted text and chunk text compare equal
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Load pdf.js on the client only, with its worker bundled alongside
+ */
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+}
+
+/**
+ * Embedded PDF viewer: renders one page at a time, jumps to a page, and
+ * highlights the text runs of that page that belong to a cited passage
+ */
+export default function PdfViewer({ url, initialPage = 1, highlight }: PdfViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(initialPage);
+  const [boxes, setBoxes] = useState<HighlightBox[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPage(initialPage);
+  }, [initialPage]);
+
+  // Load the document
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const pdfjs = await loadPdfJs();
+        loaded = await pdfjs.getDocument({ url }).promise;
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        setPdf(loaded);
+      } catch (err) {
+        console.error('[PdfViewer] Failed to load PDF:', err);
+        if (!cancelled) setError('Failed to load PDF');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  // Render the current page and find the highlighted passage on it
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+
+    let cancelled = false;
+    let renderTask: { cancel: () => void } | null = null;
+    const pageNumber = Math.min(Math.max(page, 1), pdf.numPages);
+
+    (async () => {
+      try {
+        const pdfjs = await loadPdfJs();
+        const pdfPage = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+
+        // Fit the page to the panel width
+        const unscaled = pdfPage.getViewport({ scale: 1 });
+        const width = containerRef.current?.clientWidth || unscaled.width;
+        const viewport = pdfPage.getViewport({ scale: width / unscaled.width });
+
+        const canvas = canvasRef.current!;
+        const outputScale = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+        const task = pdfPage.render({
+          canvas,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+        });
+        renderTask = task;
+        await task.promise;
+        if (cancelled) return;
+
+        // Highlight text runs that occur in the cited passage
+        const target = highlight ? normalize(highlight) : '';
+        const found: HighlightBox[] = [];
+        if (target) {
+          const content = await pdfPage.getTextContent();
+          for (const item of content.items) {
+            if (!('str' in item)) continue;
+            const text = normalize(item.str);
+            if (text.length < MIN_HIGHLIGHT_CHARS || !target.includes(text)) continue;
+
+            const [, , c, d, e, f] = pdfjs.Util.transform(viewport.transform, item.transform);
+            const height = Math.hypot(c, d);
+            found.push({
+              left: e,
+              top: f - height,
+              width: item.width * viewport.scale,
+              height,
+            });
+          }
+        }
+        if (!cancelled) setBoxes(found);
+      } catch (err: any) {
+        if (err?.name === 'RenderingCancelledException') return;
+        console.error('[PdfViewer] Failed to render page:', err);
+        if (!cancelled) setError('Failed to render page');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, highlight]);
+
+  if (error) {
+    return <p className={styles.documentEmpty}>{error}</p>;
+  }
+
+  return (
+    <div className={styles.pdfViewer}>
+      <div className={styles.pdfToolbar}>
+        <button
+          type="button"
+          className={styles.documentAction}
+          onClick={() => setPage((p) => Math.max(1, p - 1))}
+          disabled={!pdf || page <= 1}
+          aria-label="Previous page"
+        >
+          ‹
+        </button>
+        <span>
+          {pdf ? `Page ${Math.min(page, pdf.numPages)} of ${pdf.numPages}` : 'Loading PDF...'}
+        </span>
+        <button
+          type="button"
+          className={styles.documentAction}
+          onClick={() => setPage((p) => (pdf ? Math.min(pdf.numPages, p + 1) : p))}
+          disabled={!pdf || page >= pdf.numPages}
+          aria-label="Next page"
+        >
+          ›
+        </button>
+      </div>
+      <div ref={containerRef} className={styles.pdfPage}>
+        <canvas ref={canvasRef} />
+        {boxes.map((box, i) => (
+          <div
+            key={i}
+            className={styles.pdfHighlight}
+            style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
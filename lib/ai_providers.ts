@@ -4,10 +4,128 @@
  * - Ollama (local, free)
  * - OpenAI (hosted)
  * - Groq (hosted, fast inference)
+ * - Voyage AI (hosted embeddings)
+ * - Any OpenAI-compatible server (vLLM, LM Studio, ...)
  */
 
 import { cfg, isOllamaEmbed, isOllamaLLM } from '@/lib/config';
-import { embedWithOllama, generateStreamWithOllama, generateWithOllama } from '@/lib/ollama';
+import { embedWithOllama, generateStreamWithOllama, generateWithOllama, listOllamaModels } from '@/lib/ollama';
+import { getModelContextWindow, getTokenizer } from '@/lib/tokenizer';
+
+// Tokens reserved for the generated answer (max_tokens / num_predict)
+export const ANSWER_MAX_TOKENS = cfg.LLM_MAX_TOKENS;
+
+/**
+ * An OpenAI-style API: chat completions and embeddings under one base URL
+ */
+interface OpenAIEndpoint {
+  // Provider label for logs and errors
+  provider: string;
+  // Base URL including the version prefix (e.g. https://api.openai.com/v1)
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Parse OPENAI_COMPAT_HEADERS (a JSON object of extra request headers)
+ */
+function parseExtraHeaders(raw: string): Record<string, string> {
+  if (!raw.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, String(value)]));
+  } catch (error: any) {
+    throw new Error(`OPENAI_COMPAT_HEADERS is not valid: ${error.message}`);
+  }
+}
+
+/**
+ * Endpoint of the configured OpenAI-compatible server
+ */
+function getCompatEndpoint(model: string, kind: 'LLM' | 'EMBED'): OpenAIEndpoint {
+  if (!cfg.OPENAI_COMPAT_BASE_URL) {
+    throw new Error('OPENAI_COMPAT_BASE_URL not configured. Set it in environment variables.');
+  }
+  if (!model) {
+    throw new Error(`OPENAI_COMPAT_${kind}_MODEL not configured. Set it in environment variables.`);
+  }
+  return {
+    provider: 'OpenAI-compatible',
+    baseUrl: cfg.OPENAI_COMPAT_BASE_URL.replace(/\/+$/, ''),
+    apiKey: cfg.OPENAI_COMPAT_API_KEY,
+    model,
+    headers: parseExtraHeaders(cfg.OPENAI_COMPAT_HEADERS),
+  };
+}
+
+/**
+ * Endpoint for chat completions with the configured LLM provider
+ * @param model - Model override (defaults to the provider's configured model)
+ */
+function getChatEndpoint(model?: string): OpenAIEndpoint {
+  const provider = cfg.PROVIDER_LLM;
+
+  if (provider === 'openai') {
+    if (!cfg.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY not configured. Set it in environment variables.');
+    }
+    return { provider: 'OpenAI', baseUrl: 'https://api.openai.com/v1', apiKey: cfg.OPENAI_API_KEY, model: model || cfg.OPENAI_LLM_MODEL };
+  } else if (provider === 'groq') {
+    if (!cfg.GROQ_API_KEY) {
+      throw new Error('GROQ_API_KEY not configured. Set it in environment variables.');
+    }
+    return { provider: 'Groq', baseUrl: 'https://api.groq.com/openai/v1', apiKey: cfg.GROQ_API_KEY, model: model || cfg.GROQ_LLM_MODEL };
+  } else if (provider === 'openai-compatible') {
+    return getCompatEndpoint(model || cfg.OPENAI_COMPAT_LLM_MODEL, 'LLM');
+  }
+  throw new Error(`Unknown LLM provider: ${provider}. Supported: ollama, openai, groq, openai-compatible`);
+}
+
+/**
+ * Request headers for an endpoint (Authorization only when a key is set;
+ * local servers usually accept anonymous requests)
+ */
+function endpointHeaders(endpoint: OpenAIEndpoint): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+    ...endpoint.headers,
+  };
+}
+
+/**
+ * Context window (in tokens) of the configured LLM
+ * LLM_CONTEXT_TOKENS overrides the lookup; Ollama is capped at OLLAMA_NUM_CTX
+ */
+export function getLLMContextWindow(model: string = getLLMModelName()): number {
+  if (cfg.LLM_CONTEXT_TOKENS > 0) {
+    return cfg.LLM_CONTEXT_TOKENS;
+  }
+  const window = getModelContextWindow(model);
+  return isOllamaLLM() ? Math.min(window, cfg.OLLAMA_NUM_CTX) : window;
+}
+
+/**
+ * Truncate a prompt so that it plus the answer fit in the model's context window
+ */
+function fitPromptToContext(prompt: string, model: string): string {
+  const tokenizer = getTokenizer(model);
+  const maxPromptTokens = getLLMContextWindow(model) - ANSWER_MAX_TOKENS;
+
+  if (tokenizer.count(prompt) <= maxPromptTokens) {
+    return prompt;
+  }
+
+  console.warn(`[AI] Prompt exceeds ${maxPromptTokens} tokens for ${model}, truncating`);
+  return tokenizer.truncate(prompt, maxPromptTokens) + '\n\n[Context truncated...]';
+}
 
 /**
  * Generate embeddings for an array of texts using the configured provider
@@ -26,12 +144,23 @@ export async function embedTexts(texts: string[]): Promise<number[][]> {
     return await embedWithOllama(texts);
   } else if (provider === 'openai') {
     // Use OpenAI embeddings
-    return await embedWithOpenAI(texts);
+    if (!cfg.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY not configured. Set it in environment variables.');
+    }
+    return await embedWithOpenAI(texts, {
+      provider: 'OpenAI',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: cfg.OPENAI_API_KEY,
+      model: cfg.OPENAI_EMBED_MODEL,
+    });
   } else if (provider === 'voyageai') {
     // Use Voyage AI embeddings (FREE tier, optimized for RAG)
     return await embedWithVoyageAI(texts);
+  } else if (provider === 'openai-compatible') {
+    // Use a self-hosted OpenAI-compatible server
+    return await embedWithOpenAI(texts, getCompatEndpoint(cfg.OPENAI_COMPAT_EMBED_MODEL, 'EMBED'));
   } else {
-    throw new Error(`Unknown embedding provider: ${provider}. Supported: ollama, openai, voyageai`);
+    throw new Error(`Unknown embedding provider: ${provider}. Supported: ollama, openai, voyageai, openai-compatible`);
   }
 }
 
@@ -44,7 +173,7 @@ async function embedWithVoyageAI(texts: string[]): Promise<number[][]> {
   }
 
   if (process.env.NODE_ENV === 'development') {
-    console.log(`[Voyage AI] Embedding ${texts.length} texts using voyage-2`);
+    console.log(`[Voyage AI] Embedding ${texts.length} texts using ${cfg.VOYAGE_EMBED_MODEL}`);
   }
 
   try {
@@ -55,7 +184,7 @@ async function embedWithVoyageAI(texts: string[]): Promise<number[][]> {
         'Authorization': `Bearer ${cfg.VOYAGE_API_KEY}`,
       },
       body: JSON.stringify({
-        model: 'voyage-2',
+        model: cfg.VOYAGE_EMBED_MODEL,
         input: texts,
       }),
     });
@@ -85,39 +214,34 @@ async function embedWithVoyageAI(texts: string[]): Promise<number[][]> {
 }
 
 /**
- * Generate embeddings using OpenAI API
+ * Generate embeddings using an OpenAI-style /embeddings endpoint
  */
-async function embedWithOpenAI(texts: string[]): Promise<number[][]> {
-  if (!cfg.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured. Set it in environment variables.');
-  }
+async function embedWithOpenAI(texts: string[], endpoint: OpenAIEndpoint): Promise<number[][]> {
+  const { provider, model } = endpoint;
 
   if (process.env.NODE_ENV === 'development') {
-    console.log(`[OpenAI] Embedding ${texts.length} texts using text-embedding-3-small`);
+    console.log(`[${provider}] Embedding ${texts.length} texts using ${model}`);
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
+    const response = await fetch(`${endpoint.baseUrl}/embeddings`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.OPENAI_API_KEY}`,
-      },
+      headers: endpointHeaders(endpoint),
       body: JSON.stringify({
-        model: 'text-embedding-3-small',
+        model,
         input: texts,
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+      throw new Error(`${provider} API error (${response.status}): ${errorText}`);
     }
 
     const data = await response.json();
 
     if (!data.data || !Array.isArray(data.data)) {
-      throw new Error('Invalid response from OpenAI: missing data array');
+      throw new Error(`Invalid response from ${provider}: missing data array`);
     }
 
     // Extract embeddings in order
@@ -126,12 +250,12 @@ async function embedWithOpenAI(texts: string[]): Promise<number[][]> {
       .map((item: any) => item.embedding);
 
     if (process.env.NODE_ENV === 'development') {
-      console.log(`[OpenAI] Successfully generated ${embeddings.length} embeddings`);
+      console.log(`[${provider}] Successfully generated ${embeddings.length} embeddings`);
     }
 
     return embeddings;
   } catch (error: any) {
-    console.error('[OpenAI] Embedding error:', error);
+    console.error(`[${provider}] Embedding error:`, error);
     throw error;
   }
 }
@@ -139,133 +263,254 @@ async function embedWithOpenAI(texts: string[]): Promise<number[][]> {
 /**
  * Generate text completion using the configured LLM provider
  * @param prompt - The prompt to send to the LLM
- * @param opts - Options including streaming support
+ * @param opts - Options including streaming support and a model override
  * @returns Generated text or async iterable for streaming
  */
 export async function generateAnswer(
   prompt: string,
-  opts?: { stream?: boolean; signal?: AbortSignal }
+  opts?: { stream?: boolean; signal?: AbortSignal; model?: string }
 ): Promise<string | AsyncGenerator<string, void, unknown>> {
   const provider = cfg.PROVIDER_LLM;
+  const model = opts?.model || getLLMModelName();
 
   if (provider === 'ollama' || isOllamaLLM()) {
     // Use local Ollama for generation
     if (opts?.stream) {
-      return generateStreamWithOllama(prompt, opts.signal);
+      return generateStreamWithOllama(prompt, opts.signal, model);
     } else {
-      return await generateWithOllama(prompt);
+      return await generateWithOllama(prompt, model);
     }
-  } else if (provider === 'openai') {
-    // Use OpenAI for generation (non-streaming for demo)
-    return await generateWithOpenAI(prompt);
-  } else if (provider === 'groq') {
-    // Use Groq for generation (non-streaming for demo)
-    return await generateWithGroq(prompt);
+  }
+
+  // OpenAI, Groq and OpenAI-compatible servers share the chat completions API
+  const endpoint = getChatEndpoint(model);
+  if (opts?.stream) {
+    return streamChatCompletion(endpoint, prompt, opts.signal);
   } else {
-    throw new Error(`Unknown LLM provider: ${provider}. Supported: ollama, openai, groq`);
+    return await generateChatCompletion(endpoint, prompt);
   }
 }
 
 /**
- * Generate text using OpenAI API (non-streaming)
+ * Chat completions request body for a single-turn prompt
  */
-async function generateWithOpenAI(prompt: string): Promise<string> {
-  if (!cfg.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured. Set it in environment variables.');
-  }
+function chatCompletionBody(endpoint: OpenAIEndpoint, prompt: string, stream: boolean): string {
+  return JSON.stringify({
+    model: endpoint.model,
+    messages: [{ role: 'user', content: fitPromptToContext(prompt, endpoint.model) }],
+    max_tokens: ANSWER_MAX_TOKENS,
+    temperature: cfg.LLM_TEMPERATURE,
+    ...(stream ? { stream: true } : {}),
+  });
+}
+
+/**
+ * Generate text using an OpenAI-style chat completions API (non-streaming)
+ */
+async function generateChatCompletion(endpoint: OpenAIEndpoint, prompt: string): Promise<string> {
+  const { provider, model } = endpoint;
 
   if (process.env.NODE_ENV === 'development') {
-    console.log('[OpenAI] Generating response using gpt-3.5-turbo');
+    console.log(`[${provider}] Generating response using ${model}`);
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 500,
-        temperature: 0.7,
-      }),
+      headers: endpointHeaders(endpoint),
+      body: chatCompletionBody(endpoint, prompt, false),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+      throw new Error(`${provider} API error (${response.status}): ${errorText}`);
     }
 
     const data = await response.json();
 
     if (!data.choices || !data.choices[0]?.message?.content) {
-      throw new Error('Invalid response from OpenAI: missing content');
+      throw new Error(`Invalid response from ${provider}: missing content`);
     }
 
     const content = data.choices[0].message.content;
 
     if (process.env.NODE_ENV === 'development') {
-      console.log(`[OpenAI] Successfully generated response (${content.length} chars)`);
+      console.log(`[${provider}] Successfully generated response (${content.length} chars)`);
     }
 
     return content;
   } catch (error: any) {
-    console.error('[OpenAI] Generation error:', error);
+    console.error(`[${provider}] Generation error:`, error);
     throw error;
   }
 }
 
 /**
- * Generate text using Groq API (non-streaming)
+ * Stream a chat completion from an OpenAI-compatible API (server-sent events)
+ * @param endpoint - Provider, base URL, key and model
+ * @param prompt - The prompt to send to the LLM
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Async generator that yields content deltas
  */
-async function generateWithGroq(prompt: string): Promise<string> {
-  if (!cfg.GROQ_API_KEY) {
-    throw new Error('GROQ_API_KEY not configured. Set it in environment variables.');
-  }
+async function* streamChatCompletion(
+  endpoint: OpenAIEndpoint,
+  prompt: string,
+  signal?: AbortSignal
+): AsyncGenerator<string, void, unknown> {
+  const { provider, model } = endpoint;
 
   if (process.env.NODE_ENV === 'development') {
-    console.log('[Groq] Generating response using llama-3.3-70b-versatile');
+    console.log(`[${provider}] Streaming response using ${model}`);
   }
 
   try {
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+    const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.GROQ_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 500,
-        temperature: 0.7,
-      }),
+      headers: endpointHeaders(endpoint),
+      body: chatCompletionBody(endpoint, prompt, true),
+      signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Groq API error (${response.status}): ${errorText}`);
+      throw new Error(`${provider} API error (${response.status}): ${errorText}`);
     }
 
-    const data = await response.json();
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
 
-    if (!data.choices || !data.choices[0]?.message?.content) {
-      throw new Error('Invalid response from Groq: missing content');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+
+        // Keep the last incomplete line in the buffer
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          // SSE: only "data:" lines carry payloads (skip comments and blank separators)
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            if (process.env.NODE_ENV === 'development') {
+              console.log(`[${provider}] Streaming completed`);
+            }
+            return;
+          }
+
+          let data: any;
+          try {
+            data = JSON.parse(payload);
+          } catch (parseError) {
+            console.error(`[${provider}] Failed to parse SSE payload:`, payload, parseError);
+            continue;
+          }
+
+          if (data.error) {
+            throw new Error(`${provider} API error: ${data.error.message || JSON.stringify(data.error)}`);
+          }
+
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } catch (error: any) {
+    // Handle abort
+    if (error.name === 'AbortError') {
+      console.log(`[${provider}] Stream aborted by user`);
+      return;
     }
 
-    const content = data.choices[0].message.content;
+    console.error(`[${provider}] Streaming error:`, error);
+    throw error;
+  }
+}
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Groq] Successfully generated response (${content.length} chars)`);
+// How long a provider's model list is reused before asking again
+const MODEL_LIST_TTL_MS = 60000;
+
+let modelListCache: { provider: string; models: string[]; expires: number } | null = null;
+
+/**
+ * List the LLM models available from the configured provider
+ * (Ollama /api/tags, or GET /models on OpenAI-style APIs)
+ * The configured default model is always included
+ */
+export async function listLLMModels(): Promise<string[]> {
+  const provider = cfg.PROVIDER_LLM;
+  if (modelListCache && modelListCache.provider === provider && modelListCache.expires > Date.now()) {
+    return modelListCache.models;
+  }
+
+  let models: string[];
+  if (provider === 'ollama' || isOllamaLLM()) {
+    models = await listOllamaModels();
+  } else {
+    const endpoint = getChatEndpoint();
+    const response = await fetch(`${endpoint.baseUrl}/models`, {
+      headers: endpointHeaders(endpoint),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${endpoint.provider} API error (${response.status}): ${errorText}`);
     }
 
-    return content;
-  } catch (error: any) {
-    console.error('[Groq] Generation error:', error);
-    throw error;
+    const data = await response.json();
+    models = Array.isArray(data.data) ? data.data.map((m: any) => String(m.id)) : [];
+    if (provider === 'openai') {
+      // The OpenAI list also contains embedding, audio and image models
+      models = models.filter((id) => /^(gpt-|o\d|chatgpt-)/.test(id) && !/audio|realtime|image|transcribe|tts/.test(id));
+    }
   }
+
+  const defaultModel = getLLMModelName();
+  if (!models.some((m) => sameModel(m, defaultModel))) {
+    models.unshift(defaultModel);
+  }
+
+  models = Array.from(new Set(models)).sort((a, b) => a.localeCompare(b));
+  modelListCache = { provider, models, expires: Date.now() + MODEL_LIST_TTL_MS };
+  return models;
+}
+
+/**
+ * Compare model names, treating Ollama's implicit ":latest" tag as optional
+ */
+function sameModel(a: string, b: string): boolean {
+  const normalize = (name: string) => name.replace(/:latest$/, '');
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Resolve a requested LLM model against the provider's model list
+ * @param requested - Model name from the client (empty = configured default)
+ * @returns The model name to use, or null if the provider does not offer it
+ */
+export async function resolveLLMModel(requested?: string | null): Promise<string | null> {
+  const defaultModel = getLLMModelName();
+  if (!requested || sameModel(requested, defaultModel)) {
+    return defaultModel;
+  }
+
+  const models = await listLLMModels();
+  return models.find((m) => sameModel(m, requested)) || null;
 }
 
 /**
@@ -277,7 +522,11 @@ export function getEmbedModelName(): string {
   if (provider === 'ollama') {
     return cfg.OLLAMA_EMBED_MODEL;
   } else if (provider === 'openai') {
-    return 'text-embedding-3-small';
+    return cfg.OPENAI_EMBED_MODEL;
+  } else if (provider === 'voyageai') {
+    return cfg.VOYAGE_EMBED_MODEL;
+  } else if (provider === 'openai-compatible') {
+    return cfg.OPENAI_COMPAT_EMBED_MODEL || provider;
   } else {
     return provider;
   }
@@ -292,11 +541,12 @@ export function getLLMModelName(): string {
   if (provider === 'ollama') {
     return cfg.OLLAMA_LLM_MODEL;
   } else if (provider === 'openai') {
-    return 'gpt-3.5-turbo';
+    return cfg.OPENAI_LLM_MODEL;
   } else if (provider === 'groq') {
-    return 'llama-3.3-70b-versatile';
+    return cfg.GROQ_LLM_MODEL;
+  } else if (provider === 'openai-compatible') {
+    return cfg.OPENAI_COMPAT_LLM_MODEL || provider;
   } else {
     return provider;
   }
 }
-
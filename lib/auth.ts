@@ -0,0 +1,345 @@
+/**
+ * Accounts and sessions
+ * Email/password accounts (scrypt hashes) and OpenID Connect sign-ins share one
+ * session model: a random token in an HttpOnly cookie whose SHA-256 is stored
+ * in the Session table, together with the workspace the user switched to.
+ * Route handlers call getCurrentUser() and check workspace membership (lib/workspaces)
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { cfg, isProd } from '@/lib/config';
+import type { OidcIdentity } from '@/lib/oidc';
+import { ActiveWorkspace, createWorkspace, personalWorkspaceName, resolveActiveWorkspace } from '@/lib/workspaces';
+
+export const SESSION_COOKIE = 'sb_session';
+
+// scrypt cost parameters (N = 2^14 keeps a hash around 50 ms)
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEYLEN = 64;
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+
+/**
+ * Error with the HTTP status the auth routes should respond with
+ */
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Signed-in user with the workspace the session works in
+ */
+export interface CurrentUser extends SessionUser {
+  workspace: ActiveWorkspace;
+}
+
+const userSelect = { id: true, email: true, name: true } as const;
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keylen, { N, r, p }, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password as "scrypt$N$r$p$salt$hash" (salt and hash base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, SCRYPT_KEYLEN, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash (cost parameters are read from the hash)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, Number(N), Number(r), Number(p));
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Normalize an email address (trimmed, lowercase)
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Validate sign-up input
+ * @returns Normalized email and the password, or an error message
+ */
+export function validateCredentials(
+  email: unknown,
+  password: unknown
+): { email: string; password: string } | { error: string } {
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return { error: 'A valid email address is required' };
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return { error: `Password must be at most ${MAX_PASSWORD_LENGTH} characters` };
+  }
+  return { email: normalizeEmail(email), password };
+}
+
+/**
+ * Whether a new email/password account may be registered
+ * The first account can always register, so a fresh deployment can be set up
+ */
+export async function canSignUp(): Promise<boolean> {
+  return cfg.AUTH_ALLOW_SIGNUP || (await prisma.user.count()) === 0;
+}
+
+/**
+ * Create an account with its personal workspace
+ * The first account adopts conversations and documents created before accounts
+ * existed (or imported from a seed), so upgrading a single-user install keeps its data
+ */
+async function createUser(data: {
+  email: string;
+  name?: string | null;
+  passwordHash?: string;
+  oidcIssuer?: string;
+  oidcSubject?: string;
+}): Promise<SessionUser> {
+  return prisma.$transaction(async (tx) => {
+    const first = (await tx.user.count()) === 0;
+    const user = await tx.user.create({ data, select: userSelect });
+    const workspace = await createWorkspace(personalWorkspaceName(user), user.id, tx);
+
+    if (first) {
+      await tx.conversation.updateMany({
+        where: { workspaceId: null },
+        data: { workspaceId: workspace.id, ownerId: user.id },
+      });
+      await tx.document.updateMany({
+        where: { workspaceId: null },
+        data: { workspaceId: workspace.id, ownerId: user.id },
+      });
+    }
+    return user;
+  });
+}
+
+/**
+ * Register an email/password account
+ * @throws AuthError for invalid input, closed sign-up and taken emails
+ */
+export async function registerUser(email: unknown, password: unknown, name?: unknown): Promise<SessionUser> {
+  const credentials = validateCredentials(email, password);
+  if ('error' in credentials) {
+    throw new AuthError(credentials.error, 400);
+  }
+  if (!(await canSignUp())) {
+    throw new AuthError('Sign-up is disabled on this server. Ask an administrator for an account.', 403);
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email: credentials.email }, select: { id: true } });
+  if (existing) {
+    throw new AuthError('An account with this email already exists', 409);
+  }
+
+  return createUser({
+    email: credentials.email,
+    name: typeof name === 'string' && name.trim() ? name.trim() : null,
+    passwordHash: await hashPassword(credentials.password),
+  });
+}
+
+/**
+ * Check email/password credentials
+ * @returns The user, or null when the email is unknown, the account has no
+ *          password (OIDC only) or the password is wrong
+ */
+export async function authenticate(email: unknown, password: unknown): Promise<SessionUser | null> {
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+    select: { ...userSelect, passwordHash: true },
+  });
+  if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  const { passwordHash: _passwordHash, ...sessionUser } = user;
+  return sessionUser;
+}
+
+/**
+ * Find or create the account for an OpenID Connect identity
+ * Identities are matched by issuer + subject; an existing account with the same
+ * email is linked only when the provider reports the email as verified. New
+ * accounts follow the same sign-up rule as registerUser
+ * @throws AuthError when the email belongs to an account that cannot be linked
+ *         or sign-up is closed
+ */
+export async function signInWithOidc(identity: OidcIdentity): Promise<SessionUser> {
+  const linked = await prisma.user.findUnique({
+    where: { oidcIssuer_oidcSubject: { oidcIssuer: identity.issuer, oidcSubject: identity.subject } },
+    select: userSelect,
+  });
+  if (linked) {
+    return linked;
+  }
+
+  const email = normalizeEmail(identity.email);
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true, oidcSubject: true } });
+  if (existing) {
+    if (!identity.emailVerified || existing.oidcSubject) {
+      throw new AuthError(`An account with ${email} already exists. Sign in with its password instead.`, 409);
+    }
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { oidcIssuer: identity.issuer, oidcSubject: identity.subject },
+      select: userSelect,
+    });
+  }
+
+  if (!(await canSignUp())) {
+    throw new AuthError('Sign-up is disabled on this server. Ask an administrator for an account.', 403);
+  }
+
+  return createUser({
+    email,
+    name: identity.name,
+    oidcIssuer: identity.issuer,
+    oidcSubject: identity.subject,
+  });
+}
+
+/**
+ * SHA-256 of a bearer token (session cookies, share links), as stored in the database
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user (expired sessions of the user are pruned)
+ * @returns The cookie token and its expiry
+ */
+export async function createSession(userId: number): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + cfg.SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.session.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+  await prisma.session.create({ data: { tokenHash: hashToken(token), userId, expiresAt } });
+  return { token, expiresAt };
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, session: { token: string; expiresAt: Date }): void {
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    secure: isProd(),
+    sameSite: 'lax',
+    path: '/',
+    expires: session.expiresAt,
+  });
+}
+
+/**
+ * Remove the session cookie from the browser
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+/**
+ * The signed-in user of the current request (route handlers and server components)
+ * @returns null when there is no session cookie or the session expired
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { expiresAt: true, workspaceId: true, user: { select: userSelect } },
+  });
+  if (!session || session.expiresAt <= new Date()) {
+    return null;
+  }
+  return { ...session.user, workspace: await resolveActiveWorkspace(session.user, session.workspaceId) };
+}
+
+/**
+ * Switch the current session to another workspace (callers check membership)
+ */
+export async function setSessionWorkspace(workspaceId: number): Promise<void> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    await prisma.session.updateMany({ where: { tokenHash: hashToken(token) }, data: { workspaceId } });
+  }
+}
+
+/**
+ * End the current request's session
+ */
+export async function endSession(): Promise<void> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+}
+
+/**
+ * 401 response for requests without a valid session
+ */
+export function unauthorized(): NextResponse {
+  return NextResponse.json(
+    { error: 'Sign in required' },
+    { status: 401 }
+  );
+}
+
+/**
+ * Check the bearer token of a scheduler calling /api/cron/*
+ * Without CRON_SECRET the endpoints are open in development and closed in production
+ */
+export function isCronAuthorized(request: Request): boolean {
+  if (!cfg.CRON_SECRET) {
+    if (isProd()) {
+      console.error('[Auth] CRON_SECRET is not set; refusing cron request');
+      return false;
+    }
+    return true;
+  }
+  const expected = Buffer.from(`Bearer ${cfg.CRON_SECRET}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,76 @@
+/**
+ * In-process BM25 ranking
+ * Portable lexical scoring used when the database full-text index is unavailable
+ */
+
+// Okapi BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Very common English words that carry no retrieval signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase terms, dropping stopwords and a trailing plural "s"
+ */
+export function tokenizeTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((term) => !STOPWORDS.has(term))
+    .map((term) => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+}
+
+/**
+ * Rank documents against a query with Okapi BM25
+ * @param query - Free-text query
+ * @param docs - Documents to score (id + text)
+ * @param limit - Maximum number of results
+ * @returns Matching documents sorted by score (highest first); non-matching docs are omitted
+ */
+export function rankByBM25<T extends { id: number; text: string }>(
+  query: string,
+  docs: T[],
+  limit: number
+): (T & { score: number })[] {
+  const queryTerms = Array.from(new Set(tokenizeTerms(query)));
+  if (queryTerms.length === 0 || docs.length === 0) {
+    return [];
+  }
+
+  // Term frequencies per document and document frequency per query term
+  const docTerms = docs.map((doc) => {
+    const counts = new Map<string, number>();
+    const terms = tokenizeTerms(doc.text);
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return { counts, length: terms.length };
+  });
+
+  const avgLength = docTerms.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docTerms.filter((d) => d.counts.has(term)).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const scored: (T & { score: number })[] = [];
+  docs.forEach((doc, i) => {
+    const { counts, length } = docTerms[i];
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = counts.get(term) || 0;
+      if (tf === 0) continue;
+      score += idf.get(term)! * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / avgLength)));
+    }
+    if (score > 0) {
+      scored.push({ ...doc, score });
+    }
+  });
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -1,11 +1,37 @@
 /**
  * Text chunking utilities for splitting documents into embedable segments
+ * - fixed: character windows with overlap (original behaviour)
+ * - structured: recursive split on headings, paragraphs, lines, sentences and words
  */
 
+import type { DocumentHeading } from '@/lib/extract';
+import { getTokenizer, Tokenizer } from '@/lib/tokenizer';
+
+export type ChunkStrategy = 'fixed' | 'structured';
+
 export interface TextChunk {
   index: number;
   text: string;
   tokenCount: number;
+  // Character offsets of the chunk in the chunked input (end is exclusive)
+  start: number;
+  end: number;
+  // 1-based page range, when the source has page boundaries
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  // Titles of the enclosing headings, outermost first (structured strategy only)
+  headingPath?: string[];
+}
+
+export interface StructuredChunkOptions {
+  // Upper bound on tokens per chunk
+  maxTokens?: number;
+  // Tokens of trailing context repeated at the start of the next chunk (same section only)
+  overlapTokens?: number;
+  // Heading positions from the extractor; without them the whole text is one section
+  headings?: DocumentHeading[];
+  // Tokenizer used for the budget (defaults to a GPT-style tokenizer)
+  tokenizer?: Tokenizer;
 }
 
 /**
@@ -13,16 +39,19 @@ export interface TextChunk {
  * @param input - The full text to chunk
  * @param chunkSize - Target size of each chunk in characters (default: 1500)
  * @param overlap - Number of characters to overlap between chunks (default: 200)
- * @returns Array of chunks with index, text, and approximate token count
+ * @param tokenizer - Tokenizer used for each chunk's token count
+ * @returns Array of chunks with index, text, offsets, and token count
  */
 export function chunkText(
   input: string,
   chunkSize: number = 1500,
-  overlap: number = 200
+  overlap: number = 200,
+  tokenizer: Tokenizer = getTokenizer()
 ): TextChunk[] {
-  // Trim and normalize whitespace
+  // Trim and normalize whitespace (remember the leading trim so offsets match the input)
   const text = input.trim();
-  
+  const leading = input.length - input.trimStart().length;
+
   if (!text) {
     return [];
   }
@@ -34,19 +63,20 @@ export function chunkText(
   while (startIndex < text.length) {
     // Extract chunk of specified size
     const endIndex = Math.min(startIndex + chunkSize, text.length);
-    let chunkText = text.substring(startIndex, endIndex);
+    const rawChunk = text.substring(startIndex, endIndex);
 
     // Trim whitespace from chunk
-    chunkText = chunkText.trim();
+    const chunkText = rawChunk.trim();
 
     // Only add non-empty chunks
     if (chunkText) {
+      const start = leading + startIndex + (rawChunk.length - rawChunk.trimStart().length);
       chunks.push({
         index: chunkIndex,
         text: chunkText,
-        // Use character count as approximate token count
-        // (actual tokens would be ~1/4 of character count, but this is simpler)
-        tokenCount: chunkText.length,
+        tokenCount: tokenizer.count(chunkText),
+        start,
+        end: start + chunkText.length,
       });
       chunkIndex++;
     }
@@ -56,9 +86,9 @@ export function chunkText(
     if (endIndex === text.length) {
       break;
     }
-    
+
     startIndex = endIndex - overlap;
-    
+
     // Ensure we make progress even with large overlap
     if (startIndex <= chunks[chunks.length - 1]?.index || startIndex < 0) {
       startIndex = endIndex;
@@ -68,3 +98,238 @@ export function chunkText(
   return chunks;
 }
 
+/**
+ * Find the 1-based page containing a character offset
+ * @param pageOffsets - Start offset of each page (index 0 = page 1), ascending
+ * @param offset - Character offset in the document text
+ */
+export function pageAtOffset(pageOffsets: number[], offset: number): number {
+  // Binary search for the last page starting at or before the offset
+  let lo = 0;
+  let hi = pageOffsets.length - 1;
+  let page = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (pageOffsets[mid] <= offset) {
+      page = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return page + 1;
+}
+
+/**
+ * Attach page ranges to chunks using the extractor's page offsets
+ * Chunks are returned unchanged when the source has no pages
+ */
+export function assignPageRanges(chunks: TextChunk[], pageOffsets?: number[]): TextChunk[] {
+  if (!pageOffsets || pageOffsets.length === 0) {
+    return chunks;
+  }
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    pageStart: pageAtOffset(pageOffsets, chunk.start),
+    pageEnd: pageAtOffset(pageOffsets, Math.max(chunk.start, chunk.end - 1)),
+  }));
+}
+
+/**
+ * A contiguous span of the source text
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Split points from coarsest to finest; each regex matches the separator
+const SPLITTERS: RegExp[] = [
+  /\n[ \t]*\n+/g,          // paragraphs
+  /\n/g,                    // lines
+  /(?<=[.!?]["')\]]?)\s+/g, // sentences
+  /\s+/g,                   // words
+];
+
+/**
+ * Split a span at every separator match, dropping whitespace-only pieces
+ */
+function splitSpan(text: string, span: Span, splitter: RegExp): Span[] {
+  const slice = text.slice(span.start, span.end);
+  const pieces: Span[] = [];
+  let last = 0;
+
+  splitter.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = splitter.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      splitter.lastIndex++;
+      continue;
+    }
+    pieces.push({ start: span.start + last, end: span.start + match.index });
+    last = match.index + match[0].length;
+  }
+  pieces.push({ start: span.start + last, end: span.end });
+
+  return pieces.filter((p) => text.slice(p.start, p.end).trim().length > 0);
+}
+
+/**
+ * Recursively break a span into pieces that each fit the token budget,
+ * using the coarsest separator that works
+ */
+function splitToFit(
+  text: string,
+  span: Span,
+  maxTokens: number,
+  tokenizer: Tokenizer,
+  level = 0
+): Span[] {
+  if (tokenizer.count(text.slice(span.start, span.end)) <= maxTokens) {
+    return [span];
+  }
+
+  if (level >= SPLITTERS.length) {
+    // No separators left (e.g. one giant token): cut at the token budget
+    const pieces: Span[] = [];
+    let start = span.start;
+    while (start < span.end) {
+      const fit = tokenizer.truncate(text.slice(start, span.end), maxTokens).length;
+      const end = start + Math.max(1, fit);
+      pieces.push({ start, end });
+      start = end;
+    }
+    return pieces;
+  }
+
+  const pieces = splitSpan(text, span, SPLITTERS[level]);
+  if (pieces.length <= 1) {
+    return splitToFit(text, span, maxTokens, tokenizer, level + 1);
+  }
+
+  return pieces.flatMap((piece) => splitToFit(text, piece, maxTokens, tokenizer, level + 1));
+}
+
+/**
+ * Split text into sections at heading offsets, tracking the heading path of each
+ */
+function splitSections(
+  text: string,
+  headings: DocumentHeading[]
+): { span: Span; headingPath: string[] }[] {
+  const sorted = [...headings]
+    .filter((h) => h.offset >= 0 && h.offset < text.length)
+    .sort((a, b) => a.offset - b.offset);
+
+  const sections: { span: Span; headingPath: string[] }[] = [];
+  const stack: DocumentHeading[] = [];
+  let start = 0;
+
+  for (const heading of sorted) {
+    if (heading.offset > start) {
+      sections.push({ span: { start, end: heading.offset }, headingPath: stack.map((h) => h.text) });
+    }
+    // Pop siblings and deeper headings, then push this one
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+    start = heading.offset;
+  }
+  sections.push({ span: { start, end: text.length }, headingPath: stack.map((h) => h.text) });
+
+  return sections.filter((s) => text.slice(s.span.start, s.span.end).trim().length > 0);
+}
+
+/**
+ * Trim whitespace off both ends of a span
+ */
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/**
+ * Chunks text along its structure: sections (by heading), then paragraphs,
+ * lines, sentences and finally words, greedily packing adjacent pieces
+ * into chunks that stay under the token budget
+ * @param input - The full text to chunk (offsets are relative to it)
+ * @param options - Token budget, overlap, and heading positions
+ * @returns Array of chunks with index, text, offsets, token count, and heading path
+ */
+export function chunkStructured(
+  input: string,
+  options: StructuredChunkOptions = {}
+): TextChunk[] {
+  const maxTokens = Math.max(16, options.maxTokens ?? 300);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? 0), Math.floor(maxTokens / 2));
+  const tokenizer = options.tokenizer || getTokenizer();
+
+  if (!input.trim()) {
+    return [];
+  }
+
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitSections(input, options.headings || [])) {
+    const pieces = splitToFit(input, section.span, maxTokens, tokenizer);
+    let first = 0;
+
+    while (first < pieces.length) {
+      // Greedily extend the chunk while it stays within budget
+      let last = first;
+      while (
+        last + 1 < pieces.length &&
+        tokenizer.count(input.slice(pieces[first].start, pieces[last + 1].end)) <= maxTokens
+      ) {
+        last++;
+      }
+
+      const span = trimSpan(input, { start: pieces[first].start, end: pieces[last].end });
+      const text = input.slice(span.start, span.end);
+      chunks.push({
+        index: chunks.length,
+        text,
+        tokenCount: tokenizer.count(text),
+        start: span.start,
+        end: span.end,
+        headingPath: section.headingPath,
+      });
+
+      if (last + 1 >= pieces.length) break;
+
+      // Step back over trailing pieces that fit in the overlap budget,
+      // always advancing by at least one piece
+      let next = last + 1;
+      while (
+        next - 1 > first &&
+        tokenizer.count(input.slice(pieces[next - 1].start, pieces[last].end)) <= overlapTokens
+      ) {
+        next--;
+      }
+      first = next;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk text with the selected strategy
+ * @param input - The full text to chunk
+ * @param strategy - 'fixed' (character windows) or 'structured' (headings/paragraphs/sentences)
+ * @param options - Tokenizer for both strategies; budget, overlap and headings for 'structured'
+ */
+export function chunkWithStrategy(
+  input: string,
+  strategy: ChunkStrategy,
+  options: StructuredChunkOptions = {}
+): TextChunk[] {
+  if (strategy === 'structured') {
+    return chunkStructured(input, options);
+  }
+  return chunkText(input, 1500, 200, options.tokenizer);
+}
@@ -10,6 +10,23 @@ export const cfg = {
   // Demo mode - disables uploads in production
   DEMO_MODE: (process.env.DEMO_MODE || 'false') === 'true',
   
+  // Accounts and sessions
+  // Days a sign-in stays valid
+  SESSION_TTL_DAYS: Number(process.env.SESSION_TTL_DAYS || 30),
+  // Let anyone register an email/password account (the first account can always register)
+  AUTH_ALLOW_SIGNUP: (process.env.AUTH_ALLOW_SIGNUP || 'true') === 'true',
+  // OpenID Connect sign-in, enabled when the issuer and client id are set
+  OIDC_ISSUER: process.env.OIDC_ISSUER || '',
+  OIDC_CLIENT_ID: process.env.OIDC_CLIENT_ID || '',
+  OIDC_CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET || '',
+  // Defaults to <app origin>/api/auth/oidc/callback
+  OIDC_REDIRECT_URI: process.env.OIDC_REDIRECT_URI || '',
+  OIDC_SCOPES: process.env.OIDC_SCOPES || 'openid email profile',
+  // Provider name on the login button
+  OIDC_NAME: process.env.OIDC_NAME || 'SSO',
+  // Bearer token required by /api/cron/* (Vercel Cron sends it automatically)
+  CRON_SECRET: process.env.CRON_SECRET || '',
+  
   // Database
   DATABASE_URL: process.env.DATABASE_URL || 'file:./prisma/data/app.db',
   
@@ -17,6 +34,8 @@ export const cfg = {
   OLLAMA_BASE: process.env.OLLAMA_BASE || 'http://localhost:11434',
   OLLAMA_EMBED_MODEL: process.env.OLLAMA_EMBED_MODEL || 'all-minilm',
   OLLAMA_LLM_MODEL: process.env.OLLAMA_LLM_MODEL || 'llama3',
+  // Context window requested from Ollama (num_ctx); large windows cost a lot of RAM locally
+  OLLAMA_NUM_CTX: Number(process.env.OLLAMA_NUM_CTX || 4096),
   
   // Provider selection
   PROVIDER_LLM: process.env.PROVIDER_LLM || 'ollama',
@@ -27,15 +46,82 @@ export const cfg = {
   GROQ_API_KEY: process.env.GROQ_API_KEY || '',
   VOYAGE_API_KEY: process.env.VOYAGE_API_KEY || '',
   
+  // Hosted provider models
+  OPENAI_LLM_MODEL: process.env.OPENAI_LLM_MODEL || 'gpt-3.5-turbo',
+  OPENAI_EMBED_MODEL: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+  GROQ_LLM_MODEL: process.env.GROQ_LLM_MODEL || 'llama-3.3-70b-versatile',
+  VOYAGE_EMBED_MODEL: process.env.VOYAGE_EMBED_MODEL || 'voyage-2',
+  
+  // Generic OpenAI-compatible server (vLLM, LM Studio, llama.cpp, LiteLLM...)
+  // Base URL includes the version prefix, e.g. http://localhost:8000/v1
+  OPENAI_COMPAT_BASE_URL: process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:8000/v1',
+  OPENAI_COMPAT_API_KEY: process.env.OPENAI_COMPAT_API_KEY || '',
+  OPENAI_COMPAT_LLM_MODEL: process.env.OPENAI_COMPAT_LLM_MODEL || '',
+  OPENAI_COMPAT_EMBED_MODEL: process.env.OPENAI_COMPAT_EMBED_MODEL || '',
+  // Extra request headers as a JSON object, e.g. {"X-Api-Version":"2"}
+  OPENAI_COMPAT_HEADERS: process.env.OPENAI_COMPAT_HEADERS || '',
+  
+  // Generation parameters (all LLM providers)
+  LLM_TEMPERATURE: Number(process.env.LLM_TEMPERATURE || 0.7),
+  LLM_MAX_TOKENS: Number(process.env.LLM_MAX_TOKENS || 500),
+  
   // Storage configuration
   STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
   UPLOAD_DIR: process.env.UPLOAD_DIR || './uploads',
-  VERCEL_BLOB_READ_WRITE_TOKEN: process.env.VERCEL_BLOB_READ_WRITE_TOKEN || '',
+  VERCEL_BLOB_READ_WRITE_TOKEN: process.env.VERCEL_BLOB_READ_WRITE_TOKEN || process.env.BLOB_READ_WRITE_TOKEN || '',
+  // S3-compatible object storage (STORAGE_DRIVER=s3); leave the endpoint empty for AWS
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  // Key prefix for uploaded objects (e.g. uploads)
+  S3_PREFIX: process.env.S3_PREFIX || '',
+  // Address buckets as endpoint/bucket (MinIO) instead of bucket.endpoint
+  S3_FORCE_PATH_STYLE: (process.env.S3_FORCE_PATH_STYLE || 'true') === 'true',
+  
+  // OCR for scanned PDFs: 'auto' (pages without text), 'force' (every page) or 'off'
+  // (per upload: form field `ocr`)
+  OCR_MODE: process.env.OCR_MODE || 'auto',
+  // Tesseract language(s), e.g. eng or eng+deu
+  OCR_LANG: process.env.OCR_LANG || 'eng',
+  // Render scale for recognized pages (2 ≈ 144 DPI)
+  OCR_SCALE: Number(process.env.OCR_SCALE || 2),
+  // Where downloaded language data is cached, and an optional local source for it
+  OCR_CACHE_DIR: process.env.OCR_CACHE_DIR || './data/tesseract',
+  OCR_LANG_PATH: process.env.OCR_LANG_PATH || '',
+  
+  // Chunking parameters
+  // 'fixed' keeps the original 1500-char windows; 'structured' splits on headings/paragraphs/sentences
+  CHUNK_STRATEGY: process.env.CHUNK_STRATEGY || 'fixed',
+  CHUNK_MAX_TOKENS: Number(process.env.CHUNK_MAX_TOKENS || 300),
+  CHUNK_OVERLAP_TOKENS: Number(process.env.CHUNK_OVERLAP_TOKENS || 30),
   
   // Retrieval parameters
   TOP_K: Number(process.env.TOP_K || 5),
-  MAX_CONTEXT_CHARS: Number(process.env.MAX_CONTEXT_CHARS || 3000),
+  // Optional cap on retrieved context tokens (0 = fill the LLM's context window)
+  MAX_CONTEXT_TOKENS: Number(process.env.MAX_CONTEXT_TOKENS || 0),
+  // Override the LLM context window in tokens (0 = look up by model name)
+  LLM_CONTEXT_TOKENS: Number(process.env.LLM_CONTEXT_TOKENS || 0),
+  
+  // Conversation memory
+  // Rewrite follow-up questions into standalone retrieval queries
+  CONDENSE_QUESTIONS: (process.env.CONDENSE_QUESTIONS || 'true') === 'true',
+  // Upper bound on prior-turn tokens included in the answer prompt
+  HISTORY_MAX_TOKENS: Number(process.env.HISTORY_MAX_TOKENS || 1000),
+  // Unsummarized history size that triggers folding older turns into the rolling summary
+  SUMMARY_TRIGGER_TOKENS: Number(process.env.SUMMARY_TRIGGER_TOKENS || 3000),
+  SUMMARY_MAX_TOKENS: Number(process.env.SUMMARY_MAX_TOKENS || 300),
+  
+  // Candidates taken from each of the dense and lexical rankings before fusion
   PREFILTER_LIMIT: Number(process.env.PREFILTER_LIMIT || 200),
+  // Vector search backend: 'pgvector' (top-K in SQL) or 'memory' (cosine in Node);
+  // pgvector falls back to memory on databases without the extension
+  VECTOR_STORE: process.env.VECTOR_STORE || 'pgvector',
+  // Maximum embeddings loaded per query by the in-memory vector store
+  MAX_EMBEDDINGS_SEARCH: Number(process.env.MAX_EMBEDDINGS_SEARCH || 1000),
+  // Reciprocal rank fusion damping constant
+  RRF_K: Number(process.env.RRF_K || 60),
 };
 
 /**
@@ -48,6 +134,11 @@ export const isDemo = (): boolean => cfg.DEMO_MODE;
  */
 export const isProd = (): boolean => cfg.NODE_ENV === 'production';
 
+/**
+ * Check if OpenID Connect sign-in is configured
+ */
+export const isOidcEnabled = (): boolean => Boolean(cfg.OIDC_ISSUER && cfg.OIDC_CLIENT_ID);
+
 /**
  * Check if using local storage
  */
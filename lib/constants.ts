@@ -5,6 +5,26 @@
 // Maximum upload size in megabytes
 export const MAX_UPLOAD_MB = 20;
 
-// Allowed MIME types for uploads
-export const ALLOWED_MIME = ['application/pdf'];
+// Allowed MIME types for uploads (see lib/extract.ts for the matching extractors)
+export const ALLOWED_MIME = [
+  'application/pdf',
+  'text/markdown',
+  'text/x-markdown',
+  'text/plain',
+  'text/html',
+  'application/xhtml+xml',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
 
+// Allowed file extensions for uploads (browsers often send an empty MIME type for .md)
+export const ALLOWED_EXTENSIONS = [
+  '.pdf',
+  '.md',
+  '.markdown',
+  '.txt',
+  '.text',
+  '.html',
+  '.htm',
+  '.xhtml',
+  '.docx',
+];
@@ -0,0 +1,63 @@
+/**
+ * Conversation payload shared by GET /api/conversations/[id] and public share links
+ */
+
+import { MessageSource, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export interface ConversationPayload {
+  id: number;
+  title: string;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Array<{
+    id: number;
+    role: string;
+    content: string;
+    model: string | null;
+    createdAt: Date;
+    sources: MessageSource[];
+  }>;
+}
+
+/**
+ * Load a conversation with its messages and their sources, oldest first
+ * @param where - Filter identifying the conversation (callers add access checks)
+ * @returns null when no conversation matches
+ */
+export async function getConversationPayload(
+  where: Prisma.ConversationWhereInput
+): Promise<ConversationPayload | null> {
+  const conversation = await prisma.conversation.findFirst({
+    where,
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        include: {
+          sources: true,
+        },
+      },
+    },
+  });
+
+  if (!conversation) {
+    return null;
+  }
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    tags: conversation.tags,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messages: conversation.messages.map((msg) => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      model: msg.model,
+      createdAt: msg.createdAt,
+      sources: msg.sources,
+    })),
+  };
+}
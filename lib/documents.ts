@@ -0,0 +1,436 @@
+/**
+ * Document library
+ * Listing with chunk/embedding stats, rename, move between conversations,
+ * content-hash deduplication, and delete with storage cleanup
+ * Lookups are scoped to the workspaces the user belongs to; other documents read as missing
+ *
+ * Identical uploads share one canonical document: later copies are rows with
+ * canonicalId set that reuse its stored file, chunks and embeddings. The
+ * canonical document's refCount counts every document using that content, so
+ * deleting one copy never removes what the others still need
+ */
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { deletePdf } from '@/lib/storage';
+import { memberOf } from '@/lib/workspaces';
+
+// Longest display name accepted on rename
+const MAX_FILENAME_LENGTH = 255;
+
+const latestJobSelect = {
+  orderBy: { createdAt: 'desc' },
+  take: 1,
+  select: { id: true, status: true, progress: true, error: true },
+} satisfies Prisma.Document$ingestJobsArgs;
+
+const documentInclude = {
+  conversation: { select: { title: true } },
+  _count: { select: { chunks: true } },
+  ingestJobs: latestJobSelect,
+  // Duplicates report the index of the content they share
+  canonical: {
+    select: {
+      id: true,
+      refCount: true,
+      ocrPages: true,
+      _count: { select: { chunks: true } },
+      ingestJobs: latestJobSelect,
+    },
+  },
+} satisfies Prisma.DocumentInclude;
+
+type DocumentWithStats = Prisma.DocumentGetPayload<{ include: typeof documentInclude }>;
+
+export interface DocumentSummary {
+  id: number;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+  conversationId: number | null;
+  conversationTitle: string | null;
+  chunkCount: number;
+  // Embedding models with the number of chunks embedded by each
+  embedModels: Array<{ model: string; chunks: number }>;
+  // Latest ingestion job (null for documents imported without one)
+  ingest: { jobId: number; status: string; progress: number; error: string | null } | null;
+  contentHash: string | null;
+  // Canonical document whose chunks this one shares (null for originals)
+  duplicateOf: number | null;
+  // Documents sharing this content, this one included
+  refCount: number;
+  // Pages recognized by OCR, with Tesseract's confidence (null when OCR did not run)
+  ocrPages: Array<{ page: number; confidence: number }> | null;
+}
+
+/**
+ * Count embedded chunks per model for a set of documents
+ */
+async function embedModelsByDocument(
+  documentIds: number[]
+): Promise<Map<number, Array<{ model: string; chunks: number }>>> {
+  const byDocument = new Map<number, Array<{ model: string; chunks: number }>>();
+  if (documentIds.length === 0) {
+    return byDocument;
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ documentId: number; model: string; chunks: number }>>`
+    SELECT c."documentId" AS "documentId", e."model" AS model, COUNT(DISTINCT e."chunkId")::int AS chunks
+    FROM "Embedding" e
+    JOIN "Chunk" c ON c."id" = e."chunkId"
+    WHERE c."documentId" IN (${Prisma.join(documentIds)})
+    GROUP BY c."documentId", e."model"
+    ORDER BY chunks DESC
+  `;
+
+  for (const row of rows) {
+    const documentId = Number(row.documentId);
+    const models = byDocument.get(documentId) || [];
+    models.push({ model: row.model, chunks: Number(row.chunks) });
+    byDocument.set(documentId, models);
+  }
+  return byDocument;
+}
+
+function toSummary(
+  document: DocumentWithStats,
+  embedModels: Array<{ model: string; chunks: number }>
+): DocumentSummary {
+  // Chunks, embeddings and jobs live on the canonical document
+  const content = document.canonical ?? document;
+  const job = content.ingestJobs[0];
+  return {
+    id: document.id,
+    filename: document.filename,
+    mimeType: document.mimeType,
+    sizeBytes: document.sizeBytes,
+    createdAt: document.createdAt.toISOString(),
+    conversationId: document.conversationId,
+    conversationTitle: document.conversation?.title ?? null,
+    chunkCount: content._count.chunks,
+    embedModels,
+    ingest: job ? { jobId: job.id, status: job.status, progress: job.progress, error: job.error } : null,
+    contentHash: document.contentHash,
+    duplicateOf: document.canonicalId,
+    refCount: content.refCount,
+    ocrPages: (content.ocrPages as DocumentSummary['ocrPages']) ?? null,
+  };
+}
+
+/**
+ * List a workspace's documents, newest first
+ * @param conversationId - Only this conversation's documents (the whole library when omitted)
+ */
+export async function listDocuments(workspaceId: number, conversationId?: number): Promise<DocumentSummary[]> {
+  const documents = await prisma.document.findMany({
+    where: conversationId !== undefined ? { workspaceId, conversationId } : { workspaceId },
+    orderBy: { createdAt: 'desc' },
+    include: documentInclude,
+  });
+
+  const contentId = (d: DocumentWithStats) => d.canonicalId ?? d.id;
+  const models = await embedModelsByDocument(Array.from(new Set(documents.map(contentId))));
+  return documents.map((d) => toSummary(d, models.get(contentId(d)) || []));
+}
+
+/**
+ * Add embedding stats to a loaded document
+ */
+async function summarize(document: DocumentWithStats): Promise<DocumentSummary> {
+  const contentId = document.canonicalId ?? document.id;
+  const models = await embedModelsByDocument([contentId]);
+  return toSummary(document, models.get(contentId) || []);
+}
+
+/**
+ * Load a document with its stats
+ * @returns null when the document does not exist or the user is not a member of its workspace
+ */
+export async function getDocument(documentId: number, userId: number): Promise<DocumentSummary | null> {
+  const document = await prisma.document.findFirst({
+    where: { id: documentId, ...memberOf(userId) },
+    include: documentInclude,
+  });
+  return document ? summarize(document) : null;
+}
+
+/**
+ * Validate a new display name for a document
+ * @returns The trimmed name, or an error message
+ */
+export function validateFilename(value: unknown): { filename: string } | { error: string } {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return { error: 'filename must be a non-empty string' };
+  }
+  const filename = value.trim();
+  if (filename.length > MAX_FILENAME_LENGTH) {
+    return { error: `filename must be at most ${MAX_FILENAME_LENGTH} characters` };
+  }
+  if (/[\/\\]/.test(filename)) {
+    return { error: 'filename must not contain path separators' };
+  }
+  return { filename };
+}
+
+/**
+ * Rename and/or move a document (the stored file keeps its path)
+ * Callers check the user's role and that the target conversation is in the document's workspace
+ */
+export async function updateDocument(
+  documentId: number,
+  data: { filename?: string; conversationId?: number }
+): Promise<DocumentSummary> {
+  const document = await prisma.document.update({
+    where: { id: documentId },
+    data,
+    include: documentInclude,
+  });
+  return summarize(document);
+}
+
+/**
+ * Load the stored-file fields of a document the user may read
+ * @returns null when the document does not exist or the user is not a member of its
+ *          workspace (callers answer 404)
+ */
+export async function findReadableDocument(documentId: number, userId: number) {
+  return prisma.document.findFirst({
+    where: { id: documentId, ...memberOf(userId) },
+    select: { id: true, filename: true, originalPath: true, mimeType: true, sizeBytes: true, conversationId: true },
+  });
+}
+
+/**
+ * SHA-256 of an upload, stored as Document.contentHash
+ */
+export function hashContent(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Reuse an earlier upload with the same content
+ * Returns the copy already in the conversation when there is one; otherwise adds
+ * a duplicate row there that shares the canonical document's file and index
+ * Only uploads in the same workspace are reused, so nobody learns what other workspaces hold
+ * @param target - Conversation and workspace of the upload, and the uploading user
+ * @returns null when the workspace has no document with this content yet
+ */
+export async function reuseDocument(
+  contentHash: string,
+  target: { conversationId: number; workspaceId: number; ownerId: number }
+): Promise<{ documentId: number; canonicalId: number; created: boolean } | null> {
+  const { conversationId, workspaceId, ownerId } = target;
+  const canonical = await prisma.document.findFirst({
+    where: { contentHash, canonicalId: null, workspaceId },
+    orderBy: { id: 'asc' },
+    include: { duplicates: { where: { conversationId }, take: 1, select: { id: true } } },
+  });
+  if (!canonical) {
+    return null;
+  }
+
+  const existing = canonical.conversationId === conversationId ? canonical : canonical.duplicates[0];
+  if (existing) {
+    return { documentId: existing.id, canonicalId: canonical.id, created: false };
+  }
+
+  const duplicate = await prisma.$transaction(async (tx) => {
+    const created = await tx.document.create({
+      data: {
+        filename: canonical.filename,
+        originalPath: canonical.originalPath,
+        mimeType: canonical.mimeType,
+        sizeBytes: canonical.sizeBytes,
+        contentHash,
+        canonicalId: canonical.id,
+        workspaceId,
+        ownerId,
+        conversationId,
+      },
+    });
+    await tx.document.update({
+      where: { id: canonical.id },
+      data: { refCount: { increment: 1 } },
+    });
+    return created;
+  });
+
+  return { documentId: duplicate.id, canonicalId: canonical.id, created: true };
+}
+
+/**
+ * Delete a document
+ * - A duplicate drops its row and releases its reference on the canonical document
+ * - A canonical document that is still referenced hands its chunks, embeddings and
+ *   jobs to its oldest duplicate, which becomes canonical; the stored file stays
+ * - The last reference removes the rows (chunks, embeddings and jobs cascade), then the stored file
+ * A missing file is not an error; other storage failures are logged
+ * @returns Whether the stored file was removed
+ */
+export async function deleteDocument(documentId: number): Promise<{ fileRemoved: boolean }> {
+  const orphanedPath = await prisma.$transaction(async (tx) => {
+    const document = await tx.document.findUniqueOrThrow({
+      where: { id: documentId },
+      select: {
+        originalPath: true,
+        canonicalId: true,
+        duplicates: { orderBy: { id: 'asc' }, select: { id: true } },
+      },
+    });
+
+    if (document.canonicalId !== null) {
+      await tx.document.delete({ where: { id: documentId } });
+      await tx.document.update({
+        where: { id: document.canonicalId },
+        data: { refCount: { decrement: 1 } },
+      });
+      return null;
+    }
+
+    const [heir, ...others] = document.duplicates;
+    if (heir) {
+      await tx.chunk.updateMany({ where: { documentId }, data: { documentId: heir.id } });
+      await tx.ingestJob.updateMany({ where: { documentId }, data: { documentId: heir.id } });
+      await tx.document.updateMany({
+        where: { id: { in: others.map((d) => d.id) } },
+        data: { canonicalId: heir.id },
+      });
+      await tx.document.update({
+        where: { id: heir.id },
+        data: { canonicalId: null, refCount: others.length + 1 },
+      });
+      await tx.document.delete({ where: { id: documentId } });
+      return null;
+    }
+
+    await tx.document.delete({ where: { id: documentId } });
+    return document.originalPath;
+  });
+
+  if (!orphanedPath) {
+    return { fileRemoved: false };
+  }
+
+  try {
+    await deletePdf(orphanedPath);
+    return { fileRemoved: true };
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`[Documents] Failed to delete file ${orphanedPath}:`, error);
+    }
+    return { fileRemoved: false };
+  }
+}
+
+export interface ChunkView {
+  id: number;
+  chunkIndex: number;
+  text: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+  headingPath: string | null;
+}
+
+export interface ChunkContext {
+  chunk: ChunkView;
+  document: {
+    id: number;
+    filename: string;
+    mimeType: string;
+    conversationId: number | null;
+    conversationTitle: string | null;
+  };
+  // Neighbouring chunks of the same document, in order
+  before: ChunkView[];
+  after: ChunkView[];
+}
+
+const chunkViewSelect = {
+  id: true,
+  chunkIndex: true,
+  text: true,
+  pageStart: true,
+  pageEnd: true,
+  headingPath: true,
+} satisfies Prisma.ChunkSelect;
+
+/**
+ * Load a cited chunk with its neighbours
+ * Falls back to (documentId, chunkIndex) when the chunk id no longer exists,
+ * e.g. after the document was re-embedded
+ * When the citation names a duplicate, that copy is reported as the document
+ * @param userId - Only chunks of documents in the user's workspaces are returned
+ * @param neighbors - Chunks to include on each side
+ */
+export async function getChunkContext(
+  target: { chunkId: number; documentId?: number; chunkIndex?: number },
+  userId: number,
+  neighbors: number = 1
+): Promise<ChunkContext | null> {
+  const cited =
+    target.documentId !== undefined
+      ? await prisma.document.findFirst({
+          where: { id: target.documentId, ...memberOf(userId) },
+          select: { id: true, canonicalId: true },
+        })
+      : null;
+
+  let chunk = await prisma.chunk.findUnique({
+    where: { id: target.chunkId },
+    select: { ...chunkViewSelect, documentId: true },
+  });
+
+  if (!chunk && cited && target.chunkIndex !== undefined) {
+    chunk = await prisma.chunk.findFirst({
+      where: { documentId: cited.canonicalId ?? cited.id, chunkIndex: target.chunkIndex },
+      select: { ...chunkViewSelect, documentId: true },
+    });
+  }
+  if (!chunk) {
+    return null;
+  }
+
+  const displayId = cited?.canonicalId === chunk.documentId ? cited.id : chunk.documentId;
+  const [document, nearby] = await Promise.all([
+    prisma.document.findFirst({
+      where: { id: displayId, ...memberOf(userId) },
+      select: {
+        id: true,
+        filename: true,
+        mimeType: true,
+        conversationId: true,
+        conversation: { select: { title: true } },
+      },
+    }),
+    neighbors > 0
+      ? prisma.chunk.findMany({
+          where: {
+            documentId: chunk.documentId,
+            chunkIndex: { gte: chunk.chunkIndex - neighbors, lte: chunk.chunkIndex + neighbors },
+            NOT: { id: chunk.id },
+          },
+          orderBy: { chunkIndex: 'asc' },
+          select: chunkViewSelect,
+        })
+      : Promise.resolve([]),
+  ]);
+  if (!document) {
+    return null;
+  }
+
+  const { documentId: _documentId, ...view } = chunk;
+  return {
+    chunk: view,
+    document: {
+      id: document.id,
+      filename: document.filename,
+      mimeType: document.mimeType,
+      conversationId: document.conversationId,
+      conversationTitle: document.conversation?.title ?? null,
+    },
+    before: nearby.filter((c) => c.chunkIndex < chunk.chunkIndex),
+    after: nearby.filter((c) => c.chunkIndex > chunk.chunkIndex),
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * Conversation export
+ * Markdown (citations as footnotes), structured JSON (messages, their
+ * MessageSource rows and the documents involved) and PDF. The PDF is drawn with
+ * @napi-rs/canvas, already used for OCR, using the system's sans-serif and
+ * monospace fonts
+ */
+
+import { MessageSource } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ConversationPayload, getConversationPayload } from '@/lib/conversations';
+
+export type ExportFormat = 'md' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'pdf'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// A4 in points, with 2 cm margins
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 57;
+
+export interface ExportedDocument {
+  id: number;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: Date;
+  // Conversation holding the document (cited documents may live in another one)
+  conversationId: number | null;
+  conversationTitle: string | null;
+}
+
+export interface ConversationExport {
+  conversation: ConversationPayload;
+  // Documents of the conversation and documents its answers cite
+  documents: ExportedDocument[];
+  exportedAt: Date;
+}
+
+/**
+ * Numbered citation collected from the answers
+ */
+interface Footnote {
+  number: number;
+  source: MessageSource;
+}
+
+/**
+ * Parse a format from user input
+ * @returns The format, or null if it is not one
+ */
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  return EXPORT_FORMATS.includes(value as ExportFormat) ? (value as ExportFormat) : null;
+}
+
+/**
+ * Load everything an export needs (callers check access)
+ * @param workspaceId - Workspace of the conversation; cited documents are limited to it
+ * @returns null when the conversation does not exist
+ */
+export async function loadConversationExport(
+  conversationId: number,
+  workspaceId: number
+): Promise<ConversationExport | null> {
+  const conversation = await getConversationPayload({ id: conversationId });
+  if (!conversation) {
+    return null;
+  }
+
+  const citedIds = Array.from(
+    new Set(conversation.messages.flatMap((m) => m.sources.map((s) => s.documentId)))
+  );
+  const documents = await prisma.document.findMany({
+    where: { workspaceId, OR: [{ conversationId }, { id: { in: citedIds } }] },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      filename: true,
+      mimeType: true,
+      sizeBytes: true,
+      createdAt: true,
+      conversationId: true,
+      conversation: { select: { title: true } },
+    },
+  });
+
+  return {
+    conversation,
+    documents: documents.map(({ conversation: owner, ...doc }) => ({
+      ...doc,
+      conversationTitle: owner?.title ?? null,
+    })),
+    exportedAt: new Date(),
+  };
+}
+
+/**
+ * Download filename: the title reduced to safe characters plus the id
+ */
+export function exportFilename(conversation: { id: number; title: string }, format: ExportFormat): string {
+  const slug = conversation.title
+    .replace(/[^\w\- ]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 60);
+  return `${slug || 'conversation'}-${conversation.id}.${format}`;
+}
+
+/**
+ * Render an export in the requested format
+ * @returns The file body and its content type
+ */
+export async function renderExport(
+  data: ConversationExport,
+  format: ExportFormat
+): Promise<{ body: string | Buffer; contentType: string }> {
+  const body =
+    format === 'md' ? toMarkdown(data) : format === 'json' ? JSON.stringify(toJson(data), null, 2) : await toPdf(data);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
+
+/**
+ * Structured export: conversation, messages with their MessageSource rows, documents
+ */
+export function toJson(data: ConversationExport) {
+  const { conversation } = data;
+  return {
+    exportedAt: data.exportedAt.toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      tags: conversation.tags,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+    },
+    messages: conversation.messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      model: m.model,
+      createdAt: m.createdAt.toISOString(),
+      sources: m.sources,
+    })),
+    documents: data.documents.map((d) => ({ ...d, createdAt: d.createdAt.toISOString() })),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace an answer's inline citations ("(file.pdf#3, p. 2)", as the prompt asks
+ * for) with numbered markers; sources the answer does not mention inline get
+ * their marker appended
+ * @param next - Number of the first footnote
+ * @param marker - Renders a footnote number (e.g. "[^1]")
+ */
+function numberCitations(
+  content: string,
+  sources: MessageSource[],
+  next: number,
+  marker: (n: number) => string
+): { content: string; footnotes: Footnote[] } {
+  const footnotes: Footnote[] = [];
+  const unmatched: string[] = [];
+  let text = content;
+
+  sources.forEach((source, i) => {
+    const number = next + i;
+    footnotes.push({ number, source });
+
+    const label = `${escapeRegExp(source.filename)}#${source.chunkIndex}(?:,\\s*p\\.\\s*\\d+)?(?:\\s*\\(from "[^"]*"\\))?`;
+    const parenthesized = new RegExp(`\\s*\\(\\s*${label}\\s*\\)`, 'g');
+    const bare = new RegExp(`${label}(?!\\d)`, 'g');
+
+    if (text.search(parenthesized) !== -1) {
+      text = text.replace(parenthesized, marker(number));
+    } else if (text.search(bare) !== -1) {
+      text = text.replace(bare, marker(number));
+    } else {
+      unmatched.push(marker(number));
+    }
+  });
+
+  return { content: unmatched.length > 0 ? `${text}${unmatched.join('')}` : text, footnotes };
+}
+
+/**
+ * One line describing a cited source
+ */
+function describeSource(source: MessageSource): string {
+  const page = source.page ? `, p. ${source.page}` : '';
+  const from = source.conversationTitle ? ` (from "${source.conversationTitle}")` : '';
+  return `${source.filename}${page}, chunk ${source.chunkIndex}${from}`;
+}
+
+function roleLabel(message: { role: string; model: string | null }): string {
+  if (message.role === 'user') return 'You';
+  return message.model ? `Assistant (${message.model})` : 'Assistant';
+}
+
+/**
+ * Markdown export with citations as footnotes
+ */
+export function toMarkdown(data: ConversationExport): string {
+  const { conversation } = data;
+  const lines: string[] = [`# ${conversation.title}`, ''];
+
+  lines.push(`_Exported ${data.exportedAt.toISOString()} · ${conversation.messages.length} messages_`);
+  if (conversation.tags.length > 0) {
+    lines.push('', `Tags: ${conversation.tags.map((tag) => `#${tag}`).join(' ')}`);
+  }
+
+  const footnotes: Footnote[] = [];
+  for (const message of conversation.messages) {
+    const numbered = numberCitations(message.content, message.sources, footnotes.length + 1, (n) => `[^${n}]`);
+    footnotes.push(...numbered.footnotes);
+
+    lines.push('', `## ${roleLabel(message)}`, '', `<sub>${message.createdAt.toISOString()}</sub>`, '', numbered.content);
+  }
+
+  if (data.documents.length > 0) {
+    lines.push('', '## Documents', '');
+    for (const doc of data.documents) {
+      const where = doc.conversationId !== conversation.id && doc.conversationTitle ? ` (in "${doc.conversationTitle}")` : '';
+      lines.push(`- ${doc.filename} · ${doc.mimeType} · ${doc.sizeBytes} bytes${where}`);
+    }
+  }
+
+  if (footnotes.length > 0) {
+    lines.push('');
+    for (const { number, source } of footnotes) {
+      lines.push(`[^${number}]: ${describeSource(source)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Line of PDF text with its style
+ */
+interface PdfLine {
+  text: string;
+  font: string;
+  size: number;
+  color: string;
+  // Extra space above the line
+  gap: number;
+}
+
+/**
+ * PDF export: title, messages (code blocks in monospace) and numbered sources
+ */
+export async function toPdf(data: ConversationExport): Promise<Buffer> {
+  // Native module, loaded on first PDF export like in lib/ocr.ts
+  const { PDFDocument } = await import('@napi-rs/canvas');
+  const { conversation } = data;
+
+  const pdf = new PDFDocument({ title: conversation.title, creator: 'Second Brain' });
+  const width = PAGE_WIDTH - 2 * MARGIN;
+  let ctx = pdf.beginPage(PAGE_WIDTH, PAGE_HEIGHT);
+  let y = MARGIN;
+
+  // Break text into lines that fit the page width (long words are split)
+  const wrap = (text: string, font: string): string[] => {
+    ctx.font = font;
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/(\s+)/)) {
+      const candidate = line + word;
+      if (ctx.measureText(candidate).width <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = word.trimStart();
+      while (ctx.measureText(line).width > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line.trimEnd());
+    return lines;
+  };
+
+  const draw = (line: PdfLine) => {
+    const height = line.size * 1.4;
+    if (y + line.gap + height > PAGE_HEIGHT - MARGIN) {
+      pdf.endPage();
+      ctx = pdf.beginPage(PAGE_WIDTH, PAGE_HEIGHT);
+      y = MARGIN;
+    } else {
+      y += line.gap;
+    }
+    ctx.font = line.font;
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, MARGIN, y + line.size);
+    y += height;
+  };
+
+  const paragraph = (text: string, style: Omit<PdfLine, 'text'>) => {
+    wrap(text, style.font).forEach((text, i) => draw({ ...style, text, gap: i === 0 ? style.gap : 0 }));
+  };
+
+  const body = { font: '11px sans-serif', size: 11, color: '#111111', gap: 0 };
+  const code = { font: '9px monospace', size: 9, color: '#333333', gap: 0 };
+  const muted = { font: '9px sans-serif', size: 9, color: '#666666', gap: 0 };
+
+  paragraph(conversation.title, { font: 'bold 18px sans-serif', size: 18, color: '#111111', gap: 0 });
+  paragraph(`Exported ${data.exportedAt.toISOString()} · ${conversation.messages.length} messages`, { ...muted, gap: 4 });
+
+  let next = 1;
+  for (const message of conversation.messages) {
+    const numbered = numberCitations(message.content, message.sources, next, (n) => `[${n}]`);
+    next += numbered.footnotes.length;
+
+    paragraph(roleLabel(message), { font: 'bold 12px sans-serif', size: 12, color: '#111111', gap: 16 });
+    paragraph(message.createdAt.toISOString(), muted);
+
+    let inCode = false;
+    for (const line of numbered.content.split('\n')) {
+      if (line.trimStart().startsWith('```')) {
+        inCode = !inCode;
+        continue;
+      }
+      paragraph(line, { ...(inCode ? code : body), gap: 2 });
+    }
+
+    if (numbered.footnotes.length > 0) {
+      paragraph('Sources', { ...muted, font: 'bold 9px sans-serif', gap: 6 });
+      for (const { number, source } of numbered.footnotes) {
+        paragraph(`[${number}] ${describeSource(source)}`, muted);
+      }
+    }
+  }
+
+  if (data.documents.length > 0) {
+    paragraph('Documents', { font: 'bold 12px sans-serif', size: 12, color: '#111111', gap: 16 });
+    for (const doc of data.documents) {
+      paragraph(`${doc.filename} · ${doc.mimeType} · ${doc.sizeBytes} bytes`, { ...muted, gap: 2 });
+    }
+  }
+
+  pdf.endPage();
+  return pdf.close();
+}
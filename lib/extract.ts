@@ -0,0 +1,369 @@
+/**
+ * Document extractor registry
+ * Maps MIME types / file extensions to extractors that turn raw bytes into
+ * normalized text plus structural metadata (title, headings, page count)
+ */
+
+import { extractTextFromPdfBuffer } from '@/lib/pdf';
+import { ocrPdfPages, OcrMode, parseOcrMode } from '@/lib/ocr';
+
+export type DocumentFormat = 'pdf' | 'markdown' | 'text' | 'html' | 'docx';
+
+export interface DocumentHeading {
+  level: number;
+  text: string;
+  // Character offset of the heading line in the normalized text
+  offset: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  metadata: {
+    format: DocumentFormat;
+    title?: string;
+    pages?: number;
+    // Character offset where each page starts in the normalized text (index 0 = page 1)
+    pageOffsets?: number[];
+    headings: DocumentHeading[];
+    // Pages whose text came from OCR, with Tesseract's confidence (0..100)
+    ocrPages?: Array<{ page: number; confidence: number }>;
+    // Why OCR could not run (pages it was meant for keep their native text)
+    ocrError?: string;
+  };
+}
+
+export interface ExtractOptions {
+  // OCR for scanned PDF pages (defaults to OCR_MODE)
+  ocr?: OcrMode;
+  // Called after each OCR'd page
+  onOcrProgress?: (done: number, total: number) => void | Promise<void>;
+}
+
+export interface Extractor {
+  format: DocumentFormat;
+  // First entry is the canonical MIME type stored on the Document row
+  mimeTypes: string[];
+  extensions: string[];
+  extract(buffer: Buffer, options?: ExtractOptions): Promise<ExtractedDocument>;
+}
+
+/**
+ * A line of normalized output; heading lines carry their level
+ */
+interface OutputLine {
+  text: string;
+  heading?: number;
+}
+
+/**
+ * Join lines into normalized text, recording heading offsets as we go.
+ * Collapses runs of blank lines and trims trailing whitespace.
+ */
+function buildDocument(lines: OutputLine[]): { text: string; headings: DocumentHeading[] } {
+  const out: string[] = [];
+  const headings: DocumentHeading[] = [];
+  let offset = 0;
+  let blankRun = 0;
+
+  for (const line of lines) {
+    const text = line.text.replace(/[ \t]+$/g, '');
+
+    if (text.trim() === '') {
+      // Drop leading blanks and keep at most one blank line between blocks
+      if (out.length === 0 || blankRun >= 1) continue;
+      blankRun++;
+      out.push('');
+      offset += 1;
+      continue;
+    }
+
+    blankRun = 0;
+    if (line.heading) {
+      headings.push({ level: line.heading, text: text.trim(), offset });
+    }
+    out.push(text);
+    offset += text.length + 1;
+  }
+
+  return { text: out.join('\n').replace(/\s+$/, ''), headings };
+}
+
+/**
+ * Normalize line endings and strip a UTF-8 byte order mark
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Decode the handful of HTML entities that show up in exported notes
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Strip inline Markdown formatting, keeping the visible text
+ */
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')   // images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')    // links -> label
+    .replace(/`([^`]+)`/g, '$1')                // inline code
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')         // bold
+    .replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?=[^\w*]|$)/g, '$1$2'); // italics
+}
+
+const pdfExtractor: Extractor = {
+  format: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  async extract(buffer, options = {}) {
+    const { pages, pageTexts } = await extractTextFromPdfBuffer(buffer);
+
+    // OCR pages without a text layer (or every page when forced)
+    const ocr = parseOcrMode(options.ocr);
+    const ocrTargets =
+      ocr === 'off'
+        ? []
+        : pageTexts.flatMap((pageText, i) => (ocr === 'force' || pageText.trim() === '' ? [i + 1] : []));
+
+    let ocrPages: Array<{ page: number; confidence: number }> | undefined;
+    let ocrError: string | undefined;
+    if (ocrTargets.length > 0) {
+      try {
+        const recognized = await ocrPdfPages(buffer, ocrTargets, options.onOcrProgress);
+        for (const result of recognized) {
+          pageTexts[result.page - 1] = result.text;
+        }
+        ocrPages = recognized.map(({ page, confidence }) => ({ page, confidence }));
+      } catch (error: any) {
+        console.error('[PDF] OCR failed:', error);
+        ocrError = error?.message || String(error);
+      }
+    }
+
+    // Join pages with a blank line, remembering where each one starts
+    const pageOffsets: number[] = [];
+    let text = '';
+    for (const pageText of pageTexts) {
+      if (text) text += '\n\n';
+      pageOffsets.push(text.length);
+      text += pageText.replace(/\r\n?/g, '\n').trim();
+    }
+
+    return {
+      text,
+      metadata: { format: 'pdf', pages, pageOffsets, headings: [], ocrPages, ocrError },
+    };
+  },
+};
+
+const textExtractor: Extractor = {
+  format: 'text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt', '.text'],
+  async extract(buffer) {
+    const lines = decodeText(buffer).split('\n').map((text) => ({ text }));
+    const { text, headings } = buildDocument(lines);
+    return { text, metadata: { format: 'text', headings } };
+  },
+};
+
+const markdownExtractor: Extractor = {
+  format: 'markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  async extract(buffer) {
+    // Drop YAML front matter
+    const source = decodeText(buffer).replace(/^---\n[\s\S]*?\n---\n/, '');
+    const rawLines = source.split('\n');
+    const lines: OutputLine[] = [];
+    let inFence = false;
+
+    for (let i = 0; i < rawLines.length; i++) {
+      const raw = rawLines[i];
+
+      // Keep fenced code verbatim, but drop the fence markers themselves
+      if (/^\s*(```|~~~)/.test(raw)) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) {
+        lines.push({ text: raw });
+        continue;
+      }
+
+      // ATX headings: "## Title"
+      const atx = raw.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (atx) {
+        lines.push({ text: stripInlineMarkdown(atx[2]), heading: atx[1].length });
+        continue;
+      }
+
+      // Setext headings: "Title" followed by "===" or "---"
+      const next = rawLines[i + 1];
+      if (raw.trim() && next !== undefined && /^\s*(=+|-+)\s*$/.test(next)) {
+        lines.push({ text: stripInlineMarkdown(raw.trim()), heading: next.trim()[0] === '=' ? 1 : 2 });
+        i++;
+        continue;
+      }
+
+      lines.push({ text: stripInlineMarkdown(raw) });
+    }
+
+    const { text, headings } = buildDocument(lines);
+    return {
+      text,
+      metadata: {
+        format: 'markdown',
+        title: headings.find((h) => h.level === 1)?.text,
+        headings,
+      },
+    };
+  },
+};
+
+/**
+ * Convert an HTML string to normalized text with heading metadata
+ */
+function htmlToDocument(html: string, format: DocumentFormat): ExtractedDocument {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  const body = html
+    .replace(/<(script|style|head|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Mark headings so they survive tag stripping
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level, inner) =>
+      `\n\u0000${level}${inner.replace(/\s+/g, ' ')}\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|ul|ol|table|tr|blockquote|pre)[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  const lines: OutputLine[] = decodeEntities(body)
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((raw) => {
+      if (raw.startsWith('\u0000')) {
+        return { text: raw.slice(2).trim(), heading: Number(raw[1]) };
+      }
+      return { text: raw.replace(/[ \t]+/g, ' ').trim() };
+    });
+
+  const { text, headings } = buildDocument(lines);
+  const title = titleMatch
+    ? decodeEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() || undefined
+    : headings.find((h) => h.level === 1)?.text;
+
+  return { text, metadata: { format, title, headings } };
+}
+
+const htmlExtractor: Extractor = {
+  format: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  async extract(buffer) {
+    return htmlToDocument(decodeText(buffer), 'html');
+  },
+};
+
+const docxExtractor: Extractor = {
+  format: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  async extract(buffer) {
+    // mammoth maps Word heading styles to <h1>-<h6>, so reuse the HTML path
+    const mammoth = await import('mammoth');
+    const result = await mammoth.convertToHtml({ buffer });
+
+    if (process.env.NODE_ENV === 'development' && result.messages.length > 0) {
+      console.log(`[DOCX] Conversion produced ${result.messages.length} warnings`);
+    }
+
+    return htmlToDocument(result.value, 'docx');
+  },
+};
+
+const EXTRACTORS: Extractor[] = [
+  pdfExtractor,
+  markdownExtractor,
+  textExtractor,
+  htmlExtractor,
+  docxExtractor,
+];
+
+/**
+ * Register an additional extractor (takes precedence over built-ins)
+ */
+export function registerExtractor(extractor: Extractor): void {
+  EXTRACTORS.unshift(extractor);
+}
+
+/**
+ * Get the lowercase extension of a filename, including the dot
+ */
+export function getExtension(filename: string | null | undefined): string {
+  const match = (filename || '').toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : '';
+}
+
+/**
+ * Find the extractor for a file
+ * The extension wins over the MIME type because browsers report Markdown
+ * and other text formats inconsistently (often as '' or text/plain)
+ * @param mimeType - MIME type reported by the client or stored on the document
+ * @param filename - Original or stored filename
+ * @returns Matching extractor, or null if the format is unsupported
+ */
+export function findExtractor(
+  mimeType: string | null | undefined,
+  filename?: string | null
+): Extractor | null {
+  const ext = getExtension(filename);
+  if (ext) {
+    const byExt = EXTRACTORS.find((e) => e.extensions.includes(ext));
+    if (byExt) return byExt;
+  }
+
+  const mime = (mimeType || '').split(';')[0].trim().toLowerCase();
+  if (mime) {
+    const byMime = EXTRACTORS.find((e) => e.mimeTypes.includes(mime));
+    if (byMime) return byMime;
+  }
+
+  return null;
+}
+
+/**
+ * Extract normalized text and metadata from a document buffer
+ * @throws Error if the format is unsupported
+ */
+export async function extractDocument(
+  buffer: Buffer,
+  mimeType: string | null | undefined,
+  filename?: string | null,
+  options?: ExtractOptions
+): Promise<ExtractedDocument> {
+  const extractor = findExtractor(mimeType, filename);
+
+  if (!extractor) {
+    throw new Error(`Unsupported document type: ${mimeType || getExtension(filename) || 'unknown'}`);
+  }
+
+  return extractor.extract(buffer, options);
+}
@@ -0,0 +1,173 @@
+/**
+ * Hybrid retrieval
+ * Lexical search (Postgres tsvector/GIN, or in-process BM25 as a fallback)
+ * fused with vector-store similarity using reciprocal rank fusion (RRF)
+ */
+
+import { prisma } from '@/lib/db';
+import { cfg } from '@/lib/config';
+import { conversationFilter, documentScopeWhere, searchVectors } from '@/lib/vectorstore';
+import { rankByBM25 } from '@/lib/bm25';
+
+export interface RetrievedChunk {
+  // Chunk id
+  id: number;
+  docId: number;
+  chunkIndex: number;
+  filename: string;
+  // Conversation the document belongs to
+  conversationId: number | null;
+  conversationTitle: string | null;
+  text: string;
+  page: number | null;
+  // Fused RRF score (higher is better)
+  score: number;
+  // Cosine similarity, when the chunk was in the dense candidate set
+  similarity: number | null;
+}
+
+export interface HybridSearchParams {
+  question: string;
+  queryVector: number[];
+  // Embedding model of queryVector (stale embeddings from other models are skipped)
+  embedModel: string;
+  // Conversations to search; null searches every document
+  conversationIds: number[] | null;
+  topK: number;
+}
+
+/**
+ * Fuse several rankings with reciprocal rank fusion
+ * score(id) = sum over lists of 1 / (k + rank), rank starting at 1
+ * @param rankings - Lists of ids, best first
+ * @param k - Damping constant (60 in the original RRF paper)
+ * @returns Ids with fused scores, best first
+ */
+export function reciprocalRankFusion(
+  rankings: number[][],
+  k: number = 60
+): { id: number; score: number }[] {
+  const scores = new Map<number, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Full-text search over the chunks of some conversations using the Postgres tsvector index
+ * Query terms are OR-ed so natural-language questions still match partially
+ * @returns Chunk ids ranked by ts_rank_cd (best first)
+ */
+export async function searchLexical(
+  question: string,
+  conversationIds: number[] | null,
+  limit: number
+): Promise<number[]> {
+  if (conversationIds?.length === 0) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: number; score: number }>>`
+    SELECT c."id" AS id, ts_rank_cd(c."searchVector", q.query) AS score
+    FROM "Chunk" c
+    JOIN "Document" d ON d."id" = c."documentId",
+    LATERAL (
+      SELECT to_tsquery('english', replace(plainto_tsquery('english', ${question})::text, '&', '|')) AS query
+    ) q
+    WHERE ${conversationFilter(conversationIds)}
+      AND q.query::text <> ''
+      AND c."searchVector" @@ q.query
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((r) => Number(r.id));
+}
+
+/**
+ * Retrieve the best chunks of the scoped conversations for a question
+ * Dense (cosine) and lexical rankings are computed independently and fused,
+ * so a chunk that only matches by keyword can still reach the context
+ * @returns Up to topK chunks, best first (empty if nothing is embedded)
+ */
+export async function hybridSearch(params: HybridSearchParams): Promise<RetrievedChunk[]> {
+  const { question, queryVector, embedModel, conversationIds, topK } = params;
+
+  // Dense ranking from the vector store (pgvector, or in-memory cosine)
+  const dense = await searchVectors({
+    vector: queryVector,
+    model: embedModel,
+    conversationIds,
+    limit: cfg.PREFILTER_LIMIT,
+  });
+
+  // Lexical ranking: Postgres full-text index, or BM25 over the scoped chunks
+  let lexicalIds: number[];
+  try {
+    lexicalIds = await searchLexical(question, conversationIds, cfg.PREFILTER_LIMIT);
+  } catch (ftsError) {
+    console.error('[Hybrid] Full-text search failed, using in-process BM25:', ftsError);
+    const chunks = await prisma.chunk.findMany({
+      take: cfg.MAX_EMBEDDINGS_SEARCH,
+      where: conversationIds ? { document: documentScopeWhere(conversationIds) } : {},
+      select: { id: true, text: true },
+    });
+    lexicalIds = rankByBM25(question, chunks, cfg.PREFILTER_LIMIT).map((r) => r.id);
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[Hybrid] ${dense.length} dense and ${lexicalIds.length} lexical candidates`);
+  }
+
+  const fused = reciprocalRankFusion([dense.map((d) => d.chunkId), lexicalIds], cfg.RRF_K).slice(0, topK);
+  if (fused.length === 0) {
+    return [];
+  }
+
+  // Load chunk text and document metadata for the fused results
+  const documentSelect = {
+    id: true,
+    filename: true,
+    conversationId: true,
+    conversation: { select: { title: true } },
+  } as const;
+  const chunks = await prisma.chunk.findMany({
+    where: { id: { in: fused.map((f) => f.id) } },
+    include: {
+      document: {
+        select: { ...documentSelect, duplicates: { orderBy: { id: 'asc' }, select: documentSelect } },
+      },
+    },
+  });
+  const byId = new Map(chunks.map((c) => [c.id, c]));
+  const similarityById = new Map(dense.map((d) => [d.chunkId, d.similarity]));
+
+  return fused
+    .filter((f) => byId.has(f.id))
+    .map((f) => {
+      const chunk = byId.get(f.id)!;
+      // Cite the copy of a deduplicated document that lives in the searched conversations
+      const document =
+        [chunk.document, ...chunk.document.duplicates].find(
+          (d) => conversationIds === null || (d.conversationId !== null && conversationIds.includes(d.conversationId))
+        ) ?? chunk.document;
+      return {
+        id: chunk.id,
+        docId: document.id,
+        chunkIndex: chunk.chunkIndex,
+        filename: document.filename,
+        conversationId: document.conversationId,
+        conversationTitle: document.conversation?.title ?? null,
+        text: chunk.text,
+        page: chunk.pageStart,
+        score: f.score,
+        similarity: similarityById.get(f.id) ?? null,
+      };
+    });
+}
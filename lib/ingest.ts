@@ -1,34 +1,79 @@
 /**
  * Document ingestion and embedding utilities
- * Extracts PDF text, chunks it, and creates embeddings
+ * Extracts document text (PDF, Markdown, text, HTML, DOCX), chunks it, and creates embeddings
  */
 
-import { access } from 'fs/promises';
-import { constants } from 'fs';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { embedTexts, getEmbedModelName } from '@/lib/ai_providers';
-import { chunkText } from '@/lib/chunk';
-import { resolveFilePath } from '@/lib/storage';
-import { extractTextFromPdf } from '@/lib/pdf';
+import { assignPageRanges, chunkWithStrategy, ChunkStrategy } from '@/lib/chunk';
+import { cfg } from '@/lib/config';
+import { getTokenizer } from '@/lib/tokenizer';
+import { readPdf } from '@/lib/storage';
+import { extractDocument, findExtractor, ExtractedDocument } from '@/lib/extract';
+import { OcrMode, parseOcrMode } from '@/lib/ocr';
+import { getVectorStore } from '@/lib/vectorstore';
 
 export interface EmbedResult {
   chunksCreated: number;
   embeddingsCreated: number;
   model: string;
+  chunking: ChunkStrategy;
+}
+
+// Pipeline stages reported while a document is ingested
+export type IngestStage = 'extracting' | 'chunking' | 'embedding';
+
+export interface EmbedOptions {
+  // Chunking strategy for this ingest (defaults to CHUNK_STRATEGY)
+  chunking?: ChunkStrategy;
+  // Called as the pipeline advances; progress is the completed fraction (0..1)
+  onProgress?: (stage: IngestStage, progress: number) => void | Promise<void>;
+  // Rebuild a document that already has chunks (old rows are swapped out atomically)
+  replace?: boolean;
+  // OCR for scanned PDF pages (defaults to OCR_MODE)
+  ocr?: OcrMode;
+}
+
+// Chunks embedded per provider call (progress is reported after each batch)
+const EMBED_BATCH_SIZE = 64;
+
+// Time allowed for writing a document's chunks and embeddings in one transaction
+const WRITE_TRANSACTION_TIMEOUT_MS = 60000;
+
+// Separator used to store a chunk's heading path in a single column
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+/**
+ * Parse a chunking strategy from user input, falling back to the configured default
+ */
+export function parseChunkStrategy(value: unknown): ChunkStrategy {
+  if (value === 'fixed' || value === 'structured') {
+    return value;
+  }
+  return cfg.CHUNK_STRATEGY === 'structured' ? 'structured' : 'fixed';
 }
 
 /**
  * Embed a document: extract text, chunk, and create embeddings
+ * Chunks and embeddings are computed first and written in one transaction, so
+ * a document never holds a partial set of rows (or a mix of old and new ones)
  * @throws Error with specific messages for different failure modes
  */
-export async function embedDocument(documentId: number): Promise<EmbedResult> {
+export async function embedDocument(documentId: number, options: EmbedOptions = {}): Promise<EmbedResult> {
+  const chunking = parseChunkStrategy(options.chunking);
+  const ocr = parseOcrMode(options.ocr);
+  const reportProgress = async (stage: IngestStage, progress: number) => {
+    await options.onProgress?.(stage, progress);
+  };
+
   // Check if document is already embedded (prevent duplicates)
   const existingChunks = await prisma.chunk.findFirst({
     where: { documentId },
   });
 
-  if (existingChunks) {
-    throw new Error('Document already embedded. To refresh later, implement a re-embed mode.');
+  if (existingChunks && !options.replace) {
+    throw new Error('Document already embedded. Re-embed it via /api/reembed to rebuild its chunks.');
   }
 
   // Find the document in database
@@ -40,72 +85,167 @@ export async function embedDocument(documentId: number): Promise<EmbedResult> {
     throw new Error(`Document with id ${documentId} not found`);
   }
 
-  // Resolve absolute path to the PDF file
-  const filePath = resolveFilePath(document.originalPath);
-
   // Check if file path is valid
   if (!document.originalPath) {
     throw new Error('Document file path is missing');
   }
 
-  // Check if file exists
+  // Pick an extractor for the stored format
+  const extractor = findExtractor(document.mimeType, document.filename);
+  if (!extractor) {
+    throw new Error(`Unsupported document type: ${document.mimeType}`);
+  }
+
+  // Load the stored file through the storage driver
+  let buffer: Buffer;
   try {
-    await access(filePath, constants.R_OK);
+    buffer = await readPdf(document.originalPath);
   } catch (error) {
     console.error(`[Ingest] File not accessible:`, error);
-    throw new Error('PDF file not found or cannot be read');
+    throw new Error('Document file not found or cannot be read');
   }
 
-  // Extract text from PDF
-  let pdfText: string;
+  // Extract normalized text from the document
+  await reportProgress('extracting', 0.05);
+  let extracted: ExtractedDocument;
   try {
-    const pdfData = await extractTextFromPdf(filePath);
-    pdfText = pdfData.text;
+    extracted = await extractDocument(buffer, document.mimeType, document.filename, {
+      ocr,
+      onOcrProgress: (done, total) => reportProgress('extracting', 0.05 + 0.15 * (done / total)),
+    });
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log(
+        `[Ingest] Extracted ${extracted.text.length} chars (${extracted.metadata.format}, ` +
+        `${extracted.metadata.headings.length} headings) from ${document.filename}`
+      );
+    }
   } catch (error) {
-    console.error(`[Ingest] Error parsing PDF:`, error);
-    throw new Error('Failed to parse PDF file');
+    console.error(`[Ingest] Error extracting ${extractor.format}:`, error);
+    throw new Error(`Failed to parse ${extractor.format.toUpperCase()} file`);
   }
 
+  const documentText = extracted.text;
+
   // Check if text was extracted
-  if (!pdfText || pdfText.trim().length === 0) {
-    throw new Error(
-      'No extractable text found. This PDF may be scanned images. Please use OCR or a text-based PDF.'
-    );
+  if (!documentText || documentText.trim().length === 0) {
+    if (extractor.format === 'pdf') {
+      if (extracted.metadata.ocrError) {
+        throw new Error(`OCR failed on this scanned PDF: ${extracted.metadata.ocrError}`);
+      }
+      throw new Error(
+        ocr === 'off'
+          ? 'No extractable text found. This PDF may be scanned images. Upload it again with OCR enabled.'
+          : 'No extractable text found, even with OCR.'
+      );
+    }
+    throw new Error('No extractable text found in this document.');
   }
 
-  // Chunk the text
-  const chunks = chunkText(pdfText, 1500, 200);
+  // Embedding model used for this ingest (its tokenizer sets the chunk budget)
+  await reportProgress('chunking', 0.2);
+  const modelName = getEmbedModelName();
+
+  // Chunk the text and map each chunk back to its source pages
+  const chunks = assignPageRanges(
+    chunkWithStrategy(documentText, chunking, {
+      maxTokens: cfg.CHUNK_MAX_TOKENS,
+      overlapTokens: cfg.CHUNK_OVERLAP_TOKENS,
+      headings: extracted.metadata.headings,
+      tokenizer: getTokenizer(modelName),
+    }),
+    extracted.metadata.pageOffsets
+  );
 
   if (chunks.length === 0) {
     throw new Error('No chunks could be created from the extracted text');
   }
 
-  // Insert all chunks into database
-  const chunkRecords = await prisma.chunk.createMany({
-    data: chunks.map((chunk) => ({
-      documentId: documentId,
-      chunkIndex: chunk.index,
-      text: chunk.text,
-      tokenCount: chunk.tokenCount,
-    })),
-  });
+  // Create embeddings for all chunks using configured provider, batch by batch
+  // Extract chunk texts for embedding (prefix the heading path so sections embed in context)
+  const chunkTexts = chunks.map((chunk) =>
+    chunk.headingPath?.length ? `${chunk.headingPath.join(HEADING_PATH_SEPARATOR)}\n\n${chunk.text}` : chunk.text
+  );
 
-  // Retrieve the inserted chunks to get their IDs
-  const insertedChunks = await prisma.chunk.findMany({
-    where: { documentId: documentId },
-    orderBy: { chunkIndex: 'asc' },
-  });
+  await reportProgress('embedding', 0.3);
+  const embeddingVectors: number[][] = [];
+  for (let i = 0; i < chunkTexts.length; i += EMBED_BATCH_SIZE) {
+    embeddingVectors.push(...(await embedBatch(chunkTexts.slice(i, i + EMBED_BATCH_SIZE), modelName)));
+    await reportProgress('embedding', 0.3 + 0.65 * (Math.min(i + EMBED_BATCH_SIZE, chunkTexts.length) / chunkTexts.length));
+  }
 
-  // Create embeddings for all chunks using configured provider
-  const modelName = getEmbedModelName();
+  // Verify we got the right number of embeddings
+  if (embeddingVectors.length !== chunks.length) {
+    console.error(
+      `[Ingest] Embedding count mismatch: expected ${chunks.length}, got ${embeddingVectors.length}`
+    );
+    throw new Error('Embedding count mismatch - please try again');
+  }
+
+  // Swap in the new chunks and embeddings atomically (old chunks cascade to their embeddings)
+  const { chunksCreated, embeddingsCreated } = await prisma.$transaction(
+    async (tx) => {
+      if (options.replace) {
+        await tx.chunk.deleteMany({ where: { documentId } });
+      }
+
+      // Per-page OCR confidence of this ingest
+      await tx.document.update({
+        where: { id: documentId },
+        data: { ocrPages: extracted.metadata.ocrPages ?? Prisma.DbNull },
+      });
+
+      // Insert all chunks into database
+      const chunkRecords = await tx.chunk.createMany({
+        data: chunks.map((chunk) => ({
+          documentId: documentId,
+          chunkIndex: chunk.index,
+          text: chunk.text,
+          tokenCount: chunk.tokenCount,
+          pageStart: chunk.pageStart ?? null,
+          pageEnd: chunk.pageEnd ?? null,
+          headingPath: chunk.headingPath?.length ? chunk.headingPath.join(HEADING_PATH_SEPARATOR) : null,
+        })),
+      });
+
+      // Retrieve the inserted chunks to get their IDs
+      const insertedChunks = await tx.chunk.findMany({
+        where: { documentId: documentId },
+        orderBy: { chunkIndex: 'asc' },
+        select: { id: true },
+      });
+
+      // Insert all embeddings into database
+      const embeddingsCreated = await getVectorStore().add(
+        insertedChunks.map((chunk, index) => ({
+          chunkId: chunk.id,
+          vector: embeddingVectors[index],
+          model: modelName,
+        })),
+        tx
+      );
+
+      return { chunksCreated: chunkRecords.count, embeddingsCreated };
+    },
+    { timeout: WRITE_TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Return success result
+  return {
+    chunksCreated,
+    embeddingsCreated,
+    model: modelName,
+    chunking,
+  };
+}
 
-  // Extract chunk texts for embedding
-  const chunkTexts = insertedChunks.map((c) => c.text);
 
-  // Call embedding provider
-  let embeddingVectors: number[][];
+/**
+ * Embed one batch of chunk texts, translating provider errors into helpful messages
+ */
+async function embedBatch(texts: string[], modelName: string): Promise<number[][]> {
   try {
-    embeddingVectors = await embedTexts(chunkTexts);
+    return await embedTexts(texts);
   } catch (error: any) {
     console.error(`[Ingest] Error generating embeddings:`, error);
 
@@ -131,29 +271,4 @@ export async function embedDocument(documentId: number): Promise<EmbedResult> {
     // Generic error
     throw new Error(errorMessage);
   }
-
-  // Verify we got the right number of embeddings
-  if (embeddingVectors.length !== insertedChunks.length) {
-    console.error(
-      `[Ingest] Embedding count mismatch: expected ${insertedChunks.length}, got ${embeddingVectors.length}`
-    );
-    throw new Error('Embedding count mismatch - please try again');
-  }
-
-  // Insert all embeddings into database
-  const embeddingRecords = await prisma.embedding.createMany({
-    data: insertedChunks.map((chunk, index) => ({
-      chunkId: chunk.id,
-      vector: embeddingVectors[index],
-      model: modelName,
-    })),
-  });
-
-  // Return success result
-  return {
-    chunksCreated: chunkRecords.count,
-    embeddingsCreated: embeddingRecords.count,
-    model: modelName,
-  };
 }
-
@@ -0,0 +1,296 @@
+/**
+ * Background ingestion jobs
+ * Uploads enqueue an IngestJob; a worker claims jobs from the database
+ * (FOR UPDATE SKIP LOCKED, so several workers can share the queue), runs
+ * embedDocument with progress updates, and retries failures with backoff
+ */
+
+import { after } from 'next/server';
+import { prisma } from '@/lib/db';
+import { ChunkStrategy } from '@/lib/chunk';
+import { embedDocument, IngestStage, parseChunkStrategy } from '@/lib/ingest';
+import { OcrMode, parseOcrMode } from '@/lib/ocr';
+
+export type IngestJobStatus = 'queued' | IngestStage | 'done' | 'failed';
+
+// A worker that has not touched its job for this long is presumed dead
+const LOCK_TIMEOUT_SECONDS = 10 * 60;
+
+// Delay before retry n is 2^(n-1) times this
+const RETRY_BASE_DELAY_MS = 5000;
+
+// Errors that will not go away by retrying
+const PERMANENT_ERRORS = [
+  'No extractable text',
+  'Unsupported document type',
+  'Failed to parse',
+  'Document file not found',
+  'No chunks could be created',
+];
+
+// Statuses of jobs that have not finished yet
+export const ACTIVE_JOB_STATUSES = ['queued', 'extracting', 'chunking', 'embedding'];
+
+interface ClaimedJob {
+  id: number;
+  documentId: number;
+  chunking: string;
+  ocr: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+interface WorkerState {
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Keep the worker state on global so hot reloads do not start a second loop
+declare global {
+  // eslint-disable-next-line no-var
+  var ingestWorker: WorkerState | undefined;
+}
+
+const worker: WorkerState = global.ingestWorker || { running: false, timer: null };
+global.ingestWorker = worker;
+
+/**
+ * Queue a document for ingestion
+ * @param ocr - OCR mode for scanned PDF pages (defaults to OCR_MODE)
+ */
+export async function enqueueIngestJob(documentId: number, chunking: ChunkStrategy, ocr?: OcrMode) {
+  return prisma.ingestJob.create({
+    data: {
+      documentId,
+      chunking,
+      ocr: parseOcrMode(ocr),
+    },
+  });
+}
+
+/**
+ * Fail jobs whose worker died on their last attempt (out of memory, function
+ * timeout, ...): no error reached runJob, so they would otherwise stay "running"
+ * @returns Number of jobs failed
+ */
+async function failExhaustedStaleJobs(): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE "IngestJob"
+    SET "status" = 'failed',
+        "error" = 'Ingestion worker died (out of memory or timed out)',
+        "lockedAt" = NULL,
+        "finishedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "status" IN ('extracting', 'chunking', 'embedding')
+      AND "lockedAt" < NOW() - make_interval(secs => ${LOCK_TIMEOUT_SECONDS})
+      AND "attempts" >= "maxAttempts"
+  `;
+}
+
+/**
+ * Atomically claim the next runnable job (queued and due, or abandoned by a dead worker with attempts left)
+ */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const rows = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "IngestJob"
+    SET "status" = 'extracting',
+        "lockedAt" = NOW(),
+        "attempts" = "attempts" + 1,
+        "error" = NULL,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "IngestJob"
+      WHERE ("status" = 'queued' AND "runAfter" <= NOW())
+         OR ("status" IN ('extracting', 'chunking', 'embedding')
+             AND "lockedAt" < NOW() - make_interval(secs => ${LOCK_TIMEOUT_SECONDS})
+             AND "attempts" < "maxAttempts")
+      ORDER BY "runAfter" ASC, "id" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "documentId", "chunking", "ocr", "attempts", "maxAttempts"
+  `;
+
+  return rows[0] || null;
+}
+
+/**
+ * Run one claimed job to completion, recording progress, success or failure
+ */
+async function runJob(job: ClaimedJob): Promise<void> {
+  try {
+    // Jobs always rebuild the document: a previous attempt may have committed
+    // before its worker died, and re-embed jobs replace existing chunks anyway
+    await embedDocument(job.documentId, {
+      chunking: parseChunkStrategy(job.chunking),
+      ocr: parseOcrMode(job.ocr),
+      replace: true,
+      onProgress: async (stage, progress) => {
+        await prisma.ingestJob.update({
+          where: { id: job.id },
+          data: { status: stage, progress, lockedAt: new Date() },
+        });
+      },
+    });
+
+    await prisma.ingestJob.update({
+      where: { id: job.id },
+      data: { status: 'done', progress: 1, lockedAt: null, finishedAt: new Date() },
+    });
+  } catch (error: any) {
+    const message: string = error?.message || 'Ingestion failed';
+    const permanent = PERMANENT_ERRORS.some((e) => message.includes(e));
+    const retry = !permanent && job.attempts < job.maxAttempts;
+
+    console.error(
+      `[Jobs] Ingest job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})` +
+      `${retry ? ', will retry' : ''}:`,
+      message
+    );
+
+    await prisma.ingestJob.update({
+      where: { id: job.id },
+      data: retry
+        ? {
+            status: 'queued',
+            progress: 0,
+            error: message,
+            lockedAt: null,
+            runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+          }
+        : {
+            status: 'failed',
+            error: message,
+            lockedAt: null,
+            finishedAt: new Date(),
+          },
+    });
+  }
+}
+
+/**
+ * Process runnable jobs until the queue is empty or the time budget runs out
+ * @param maxDurationMs - Stop claiming new jobs after this long
+ * @returns Number of jobs processed
+ */
+export async function processIngestJobs(maxDurationMs: number = Infinity): Promise<number> {
+  const deadline = Date.now() + maxDurationMs;
+  let processed = 0;
+
+  const abandoned = await failExhaustedStaleJobs();
+  if (abandoned > 0) {
+    console.error(`[Jobs] Failed ${abandoned} ingest job(s) whose worker died on the last attempt`);
+  }
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob();
+    if (!job) break;
+
+    await runJob(job);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Drain the queue in-process (null if the worker is already running)
+ * After draining it sleeps until the next retry is due; on serverless hosts
+ * the timer never fires and /api/cron/ingest picks the retry up instead
+ */
+function runIngestWorker(): Promise<void> | null {
+  if (worker.running) return null;
+
+  if (worker.timer) {
+    clearTimeout(worker.timer);
+    worker.timer = null;
+  }
+
+  worker.running = true;
+  return (async () => {
+    try {
+      await processIngestJobs();
+
+      // Schedule a wake-up for the earliest pending retry
+      const next = await prisma.ingestJob.findFirst({
+        where: { status: 'queued' },
+        orderBy: { runAfter: 'asc' },
+        select: { runAfter: true },
+      });
+      if (next) {
+        const delay = Math.max(0, next.runAfter.getTime() - Date.now());
+        worker.timer = setTimeout(runIngestWorker, delay);
+      }
+    } catch (error) {
+      console.error('[Jobs] Worker error:', error);
+    } finally {
+      worker.running = false;
+    }
+  })();
+}
+
+/**
+ * Wake the worker from a route handler (no-op if it is already running)
+ * The drain is registered with after(), so serverless hosts keep the function
+ * alive until it finishes instead of freezing it once the response is sent
+ */
+export function kickIngestWorker(): void {
+  const run = runIngestWorker();
+  if (run) {
+    after(run);
+  }
+}
+
+type IngestJobWithDocument = NonNullable<Awaited<ReturnType<typeof getIngestJob>>>;
+
+/**
+ * Load a job with its document's filename, conversation and workspace
+ */
+export async function getIngestJob(jobId: number) {
+  return prisma.ingestJob.findUnique({
+    where: { id: jobId },
+    include: { document: { select: { filename: true, conversationId: true, workspaceId: true } } },
+  });
+}
+
+/**
+ * Jobs of a conversation, newest first
+ */
+export async function listIngestJobs(conversationId: number, limit: number = 50) {
+  return prisma.ingestJob.findMany({
+    where: { document: { conversationId } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { document: { select: { filename: true, conversationId: true, workspaceId: true } } },
+  });
+}
+
+/**
+ * Whether a job status is terminal
+ */
+export function isFinished(status: string): boolean {
+  return status === 'done' || status === 'failed';
+}
+
+/**
+ * JSON shape returned by the status endpoints
+ */
+export function serializeIngestJob(job: IngestJobWithDocument) {
+  return {
+    id: job.id,
+    documentId: job.documentId,
+    filename: job.document.filename,
+    conversationId: job.document.conversationId,
+    status: job.status as IngestJobStatus,
+    progress: job.progress,
+    chunking: job.chunking,
+    ocr: job.ocr,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    finished: isFinished(job.status),
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+  };
+}
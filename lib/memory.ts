@@ -0,0 +1,222 @@
+/**
+ * Conversational memory
+ * - condense follow-up questions into standalone retrieval queries
+ * - a token-budgeted window of recent turns for the answer prompt
+ * - a rolling summary of older turns stored on the conversation
+ */
+
+import { prisma } from '@/lib/db';
+import { cfg } from '@/lib/config';
+import { generateAnswer } from '@/lib/ai_providers';
+import { Tokenizer } from '@/lib/tokenizer';
+
+export interface HistoryMessage {
+  id: number;
+  role: string;
+  content: string;
+}
+
+export interface ConversationHistory {
+  // Rolling summary of turns older than `messages`
+  summary: string | null;
+  // Unsummarized messages, oldest first
+  messages: HistoryMessage[];
+}
+
+// Messages loaded per query; older unsummarized turns are dropped from the prompt
+const MAX_HISTORY_MESSAGES = 40;
+
+// Recent turns shown to the LLM when condensing a follow-up
+const CONDENSE_HISTORY_MESSAGES = 6;
+
+/**
+ * Format messages as "User: ..." / "Assistant: ..." lines
+ */
+function formatTurns(messages: HistoryMessage[]): string {
+  return messages
+    .map((m) => `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${m.content.trim()}`)
+    .join('\n');
+}
+
+/**
+ * Generate a short completion (non-streaming) with the given model
+ */
+async function complete(prompt: string, model: string): Promise<string> {
+  const result = await generateAnswer(prompt, { model });
+  if (typeof result === 'string') {
+    return result.trim();
+  }
+  let text = '';
+  for await (const delta of result) text += delta;
+  return text.trim();
+}
+
+/**
+ * Load the conversation's rolling summary and the messages after it
+ */
+export async function loadHistory(conversationId: number): Promise<ConversationHistory> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { summary: true, summaryMessageId: true },
+  });
+
+  const recent = await prisma.message.findMany({
+    where: {
+      conversationId,
+      ...(conversation?.summaryMessageId ? { id: { gt: conversation.summaryMessageId } } : {}),
+    },
+    orderBy: { id: 'desc' },
+    take: MAX_HISTORY_MESSAGES,
+    select: { id: true, role: true, content: true },
+  });
+
+  return {
+    summary: conversation?.summary || null,
+    messages: recent.reverse(),
+  };
+}
+
+/**
+ * Render the history that fits in a token budget: the summary (if it fits)
+ * followed by as many of the most recent turns as fit
+ * @returns History text for buildPrompt ('' when there is none)
+ */
+export function historyWindow(
+  history: ConversationHistory,
+  maxTokens: number,
+  tokenizer: Tokenizer
+): string {
+  let remaining = maxTokens;
+  let summary = '';
+
+  if (history.summary) {
+    const text = `Summary of earlier conversation: ${history.summary}`;
+    const tokens = tokenizer.count(text);
+    if (tokens <= remaining) {
+      summary = text;
+      remaining -= tokens;
+    }
+  }
+
+  // Walk back from the newest turn until the budget runs out
+  const kept: HistoryMessage[] = [];
+  for (let i = history.messages.length - 1; i >= 0; i--) {
+    const tokens = tokenizer.count(formatTurns([history.messages[i]])) + 1;
+    if (tokens > remaining) break;
+    kept.unshift(history.messages[i]);
+    remaining -= tokens;
+  }
+
+  return [summary, formatTurns(kept)].filter(Boolean).join('\n');
+}
+
+/**
+ * Rewrite a follow-up question into a standalone query for retrieval
+ * Falls back to the original question when there is no history or the LLM fails
+ */
+export async function condenseQuestion(
+  question: string,
+  history: ConversationHistory,
+  model: string
+): Promise<string> {
+  if (!cfg.CONDENSE_QUESTIONS || history.messages.length === 0) {
+    return question;
+  }
+
+  const recent = history.messages.slice(-CONDENSE_HISTORY_MESSAGES);
+  const prompt = `Rewrite the follow-up question as a standalone question that can be understood without the conversation.
+Resolve pronouns and references ("it", "the second one", "that paper") using the conversation.
+If the question is already standalone, return it unchanged. Reply with the question only.
+${history.summary ? `\nSUMMARY OF EARLIER CONVERSATION:\n${history.summary}\n` : ''}
+CONVERSATION:
+${formatTurns(recent)}
+
+FOLLOW-UP QUESTION:
+${question}
+
+STANDALONE QUESTION:
+`;
+
+  try {
+    const condensed = (await complete(prompt, model))
+      .split('\n')[0]
+      .replace(/^["'\s]+|["'\s]+$/g, '');
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[Memory] Condensed "${question}" -> "${condensed}"`);
+    }
+    return condensed || question;
+  } catch (error) {
+    console.error('[Memory] Question condensation failed, using the original question:', error);
+    return question;
+  }
+}
+
+/**
+ * Fold older turns into the conversation's rolling summary once the
+ * unsummarized history grows past SUMMARY_TRIGGER_TOKENS
+ * The newest HISTORY_MAX_TOKENS worth of turns stay verbatim
+ */
+export async function updateRollingSummary(
+  conversationId: number,
+  model: string,
+  tokenizer: Tokenizer
+): Promise<void> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { summary: true, summaryMessageId: true },
+  });
+  if (!conversation) return;
+
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      ...(conversation.summaryMessageId ? { id: { gt: conversation.summaryMessageId } } : {}),
+    },
+    orderBy: { id: 'asc' },
+    select: { id: true, role: true, content: true },
+  });
+
+  const tokens = messages.map((m) => tokenizer.count(formatTurns([m])) + 1);
+  const total = tokens.reduce((sum, t) => sum + t, 0);
+  if (total <= cfg.SUMMARY_TRIGGER_TOKENS) {
+    return;
+  }
+
+  // Keep the newest turns that fit the history window; summarize the rest
+  let kept = 0;
+  let keptTokens = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (keptTokens + tokens[i] > cfg.HISTORY_MAX_TOKENS) break;
+    keptTokens += tokens[i];
+    kept++;
+  }
+  const older = messages.slice(0, messages.length - kept);
+  if (older.length === 0) {
+    return;
+  }
+
+  const prompt = `Update the running summary of a conversation between a user and an assistant about their documents.
+Keep names, numbers, decisions and open questions. Write at most ${cfg.SUMMARY_MAX_TOKENS} tokens of plain prose.
+${conversation.summary ? `\nCURRENT SUMMARY:\n${conversation.summary}\n` : ''}
+NEW TURNS:
+${formatTurns(older)}
+
+UPDATED SUMMARY:
+`;
+
+  const summary = tokenizer.truncate(await complete(prompt, model), cfg.SUMMARY_MAX_TOKENS).trim();
+  if (!summary) return;
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: {
+      summary,
+      summaryMessageId: older[older.length - 1].id,
+    },
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[Memory] Summarized ${older.length} messages for conversation ${conversationId}`);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * OCR for scanned PDFs
+ * Renders pages with pdf.js onto @napi-rs/canvas and recognizes them with
+ * Tesseract compiled to WASM, all in-process (language data is fetched once
+ * and cached under OCR_CACHE_DIR, or read from OCR_LANG_PATH when offline)
+ */
+
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { cfg } from '@/lib/config';
+
+// 'auto': OCR pages that yield no text; 'force': OCR every page; 'off': never
+export type OcrMode = 'auto' | 'force' | 'off';
+
+export interface OcrPage {
+  // 1-based page number
+  page: number;
+  text: string;
+  // Tesseract's mean word confidence for the page (0..100)
+  confidence: number;
+}
+
+/**
+ * Parse an OCR mode from user input, falling back to the configured default
+ */
+export function parseOcrMode(value: unknown): OcrMode {
+  if (value === 'auto' || value === 'force' || value === 'off') {
+    return value;
+  }
+  return cfg.OCR_MODE === 'force' || cfg.OCR_MODE === 'off' ? cfg.OCR_MODE : 'auto';
+}
+
+/**
+ * Whether a native 2D context provides the drawing calls pdf.js renders with,
+ * so it can stand in for the DOM's CanvasRenderingContext2D
+ */
+function isRenderContext(context: SKRSContext2D | CanvasRenderingContext2D): context is CanvasRenderingContext2D {
+  return (
+    typeof context.drawImage === 'function' &&
+    typeof context.putImageData === 'function' &&
+    typeof context.setTransform === 'function'
+  );
+}
+
+/**
+ * Recognize the text of some pages of a PDF
+ * Pages are rendered and recognized one at a time to keep memory flat
+ * @param pageNumbers - 1-based pages to OCR, in order
+ * @param onPage - Called after each page with the number of pages done
+ */
+export async function ocrPdfPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  onPage?: (done: number, total: number) => void | Promise<void>
+): Promise<OcrPage[]> {
+  if (pageNumbers.length === 0) {
+    return [];
+  }
+
+  const [pdfjs, { createCanvas }, { createWorker }] = await Promise.all([
+    import('pdfjs-dist/legacy/build/pdf.mjs'),
+    import('@napi-rs/canvas'),
+    import('tesseract.js'),
+  ]);
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+  const worker = await createWorker(cfg.OCR_LANG, undefined, {
+    cachePath: cfg.OCR_CACHE_DIR,
+    ...(cfg.OCR_LANG_PATH ? { langPath: cfg.OCR_LANG_PATH } : {}),
+  });
+
+  try {
+    const results: OcrPage[] = [];
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: cfg.OCR_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      const context = canvas.getContext('2d');
+      if (!isRenderContext(context)) {
+        throw new Error('The native canvas does not provide the 2D context pdf.js draws with');
+      }
+
+      // With no canvas given, pdf.js draws on the context's own canvas
+      await page.render({ canvas: null, canvasContext: context, viewport }).promise;
+      const { data } = await worker.recognize(canvas.toBuffer('image/png'));
+      page.cleanup();
+
+      results.push({
+        page: pageNumber,
+        text: data.text.trim(),
+        confidence: Math.round(data.confidence * 10) / 10,
+      });
+      await onPage?.(results.length, pageNumbers.length);
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      const mean = results.reduce((sum, r) => sum + r.confidence, 0) / results.length;
+      console.log(`[OCR] Recognized ${results.length} pages (mean confidence ${mean.toFixed(1)})`);
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * OpenID Connect sign-in (authorization code flow with PKCE)
+ * Works with any provider that publishes /.well-known/openid-configuration
+ * (Keycloak, Authentik, Google, Microsoft Entra ID, Okta, ...)
+ *
+ * The ID token comes straight from the provider's token endpoint over TLS, so
+ * its claims are checked (issuer, audience, expiry, nonce) without verifying
+ * the signature, as OpenID Connect Core 3.1.3.7 allows for this flow
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { cfg } from '@/lib/config';
+
+// Cookie holding state, nonce and PKCE verifier between redirect and callback
+export const OIDC_STATE_COOKIE = 'sb_oidc';
+
+// How long a sign-in attempt may take at the provider
+export const OIDC_STATE_MAX_AGE_SECONDS = 600;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+interface OidcState {
+  state: string;
+  nonce: string;
+  verifier: string;
+}
+
+/**
+ * Identity returned by the provider after sign-in
+ */
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+/**
+ * Load (and cache) the provider's discovery document
+ */
+function discover(): Promise<OidcDiscovery> {
+  if (!cfg.OIDC_ISSUER || !cfg.OIDC_CLIENT_ID) {
+    throw new Error('OIDC_ISSUER and OIDC_CLIENT_ID not configured. Set them in environment variables.');
+  }
+
+  if (!discovery) {
+    const url = `${cfg.OIDC_ISSUER.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    discovery = fetch(url)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`OIDC discovery failed: ${res.status} ${res.statusText} (${url})`);
+        }
+        return (await res.json()) as OidcDiscovery;
+      })
+      .catch((error) => {
+        // Retry on the next sign-in instead of caching the failure
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery;
+}
+
+/**
+ * Callback URL registered with the provider
+ */
+export function oidcRedirectUri(origin: string): string {
+  return cfg.OIDC_REDIRECT_URI || `${origin}/api/auth/oidc/callback`;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Build the provider's authorization URL
+ * @returns The URL to redirect to and the value of the state cookie
+ */
+export async function startOidcSignIn(origin: string): Promise<{ url: string; cookie: string }> {
+  const provider = await discover();
+  const state: OidcState = { state: randomToken(), nonce: randomToken(), verifier: randomToken() };
+
+  const url = new URL(provider.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: cfg.OIDC_CLIENT_ID,
+    redirect_uri: oidcRedirectUri(origin),
+    scope: cfg.OIDC_SCOPES,
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: createHash('sha256').update(state.verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), cookie: Buffer.from(JSON.stringify(state)).toString('base64url') };
+}
+
+/**
+ * Decode the claims of a JWT (no signature check, see the module comment)
+ */
+function decodeClaims(jwt: string): Record<string, any> {
+  const payload = jwt.split('.')[1];
+  if (!payload) {
+    throw new Error('Malformed ID token');
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+}
+
+/**
+ * Complete a sign-in: check state, exchange the code and read the identity
+ * @param params - Query parameters of the callback request
+ * @param cookie - Value of the state cookie set by startOidcSignIn
+ * @throws Error with a user-facing message when anything does not match
+ */
+export async function finishOidcSignIn(
+  params: URLSearchParams,
+  cookie: string | undefined,
+  origin: string
+): Promise<OidcIdentity> {
+  const providerError = params.get('error');
+  if (providerError) {
+    throw new Error(params.get('error_description') || `Sign-in was cancelled (${providerError})`);
+  }
+
+  let saved: OidcState;
+  try {
+    saved = JSON.parse(Buffer.from(cookie || '', 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Sign-in expired. Please try again.');
+  }
+  const code = params.get('code');
+  if (!code || !saved?.state || params.get('state') !== saved.state) {
+    throw new Error('Sign-in expired. Please try again.');
+  }
+
+  const provider = await discover();
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oidcRedirectUri(origin),
+    code_verifier: saved.verifier,
+  });
+  if (cfg.OIDC_CLIENT_SECRET) {
+    // client_secret_basic, the default token endpoint auth method
+    const credentials = `${encodeURIComponent(cfg.OIDC_CLIENT_ID)}:${encodeURIComponent(cfg.OIDC_CLIENT_SECRET)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', cfg.OIDC_CLIENT_ID);
+  }
+
+  const response = await fetch(provider.token_endpoint, { method: 'POST', headers, body });
+  const tokens = await response.json().catch(() => ({}));
+  if (!response.ok || typeof tokens.id_token !== 'string') {
+    throw new Error(`Token exchange failed: ${tokens.error_description || tokens.error || response.status}`);
+  }
+
+  const claims = decodeClaims(tokens.id_token);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== provider.issuer || !audience.includes(cfg.OIDC_CLIENT_ID)) {
+    throw new Error('ID token was not issued for this application');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    throw new Error('ID token expired');
+  }
+  if (claims.nonce !== saved.nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  // Some providers only put email and name in the userinfo response
+  let profile: Record<string, any> = claims;
+  if (!claims.email && provider.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    const userinfo = await fetch(provider.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.ok) {
+      const info = await userinfo.json();
+      if (info.sub === claims.sub) {
+        profile = { ...claims, ...info };
+      }
+    }
+  }
+
+  if (typeof profile.email !== 'string' || !profile.email) {
+    throw new Error('The identity provider did not return an email address. Add the "email" scope.');
+  }
+
+  return {
+    issuer: provider.issuer,
+    subject: String(claims.sub),
+    email: profile.email,
+    emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+    name: typeof profile.name === 'string' ? profile.name : null,
+  };
+}
@@ -3,13 +3,44 @@
  * Free, local embeddings using Ollama server
  */
 
+import { getModelContextWindow, getTokenizer } from '@/lib/tokenizer';
+
 const OLLAMA_BASE = process.env.OLLAMA_BASE || 'http://localhost:11434';
 const OLLAMA_EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || 'all-minilm';
 const OLLAMA_LLM_MODEL = process.env.OLLAMA_LLM_MODEL || 'llama3';
+// Context window requested from Ollama (num_ctx)
+const OLLAMA_NUM_CTX = Number(process.env.OLLAMA_NUM_CTX || 4096);
+// Tokens reserved for the answer (num_predict) and sampling temperature
+const NUM_PREDICT = Number(process.env.LLM_MAX_TOKENS || 500);
+const TEMPERATURE = Number(process.env.LLM_TEMPERATURE || 0.7);
 
 // Batch size for embedding requests (Ollama can handle more, but we'll be conservative)
 const BATCH_SIZE = 64;
 
+/**
+ * Context window to request: LLM_CONTEXT_TOKENS if set, else the model's
+ * window capped at OLLAMA_NUM_CTX
+ */
+function getNumCtx(model: string): number {
+  const override = Number(process.env.LLM_CONTEXT_TOKENS || 0);
+  if (override > 0) return override;
+  return Math.min(OLLAMA_NUM_CTX, getModelContextWindow(model));
+}
+
+/**
+ * Truncate a prompt so that it plus the answer fit in num_ctx
+ * (Ollama silently drops the start of over-long prompts otherwise)
+ */
+function fitPrompt(prompt: string, model: string): string {
+  const tokenizer = getTokenizer(model);
+  const maxPromptTokens = getNumCtx(model) - NUM_PREDICT;
+
+  if (tokenizer.count(prompt) <= maxPromptTokens) {
+    return prompt;
+  }
+  return tokenizer.truncate(prompt, maxPromptTokens) + '\n\n[Context truncated...]';
+}
+
 /**
  * Generate embeddings using local Ollama server
  * @param texts - Array of texts to embed
@@ -105,25 +136,46 @@ export function getOllamaBase(): string {
   return OLLAMA_BASE;
 }
 
+/**
+ * List the models installed on the Ollama server (GET /api/tags)
+ * @returns Model names as Ollama reports them (e.g. "llama3:latest")
+ */
+export async function listOllamaModels(): Promise<string[]> {
+  try {
+    const response = await fetch(`${OLLAMA_BASE}/api/tags`);
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data.models) ? data.models.map((m: any) => String(m.name)) : [];
+  } catch (error: any) {
+    if (error.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNREFUSED') {
+      throw new Error(`Cannot connect to Ollama server at ${OLLAMA_BASE}. Start Ollama: \`ollama serve\``);
+    }
+    throw error;
+  }
+}
+
 /**
  * Generate text using a local Ollama LLM with streaming support
  * @param prompt - The prompt to send to the LLM
  * @param signal - Optional AbortSignal for cancellation
+ * @param model - LLM model (defaults to OLLAMA_LLM_MODEL)
  * @returns Async generator that yields response chunks
  */
 export async function* generateStreamWithOllama(
   prompt: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  model: string = OLLAMA_LLM_MODEL
 ): AsyncGenerator<string, void, unknown> {
   if (process.env.NODE_ENV === 'development') {
-    console.log(`[Ollama] Streaming response using model: ${OLLAMA_LLM_MODEL}`);
+    console.log(`[Ollama] Streaming response using model: ${model}`);
   }
 
-  // Limit prompt length to prevent memory issues
-  const maxPromptLength = 8000;
-  const truncatedPrompt = prompt.length > maxPromptLength 
-    ? prompt.substring(0, maxPromptLength) + '\n\n[Context truncated...]'
-    : prompt;
+  // Keep the prompt within the model's context window
+  const truncatedPrompt = fitPrompt(prompt, model);
 
   try {
     const response = await fetch(`${OLLAMA_BASE}/api/generate`, {
@@ -132,12 +184,13 @@ export async function* generateStreamWithOllama(
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: OLLAMA_LLM_MODEL,
+        model,
         prompt: truncatedPrompt,
         stream: true,
         options: {
-          num_predict: 500,
-          temperature: 0.7,
+          num_predict: NUM_PREDICT,
+          num_ctx: getNumCtx(model),
+          temperature: TEMPERATURE,
         },
       }),
       signal,
@@ -151,7 +204,7 @@ export async function* generateStreamWithOllama(
       }
 
       if (response.status === 404 || errorText.includes('model') || errorText.includes('not found')) {
-        throw new Error(`Ollama LLM model "${OLLAMA_LLM_MODEL}" not found. Pull LLM model: \`ollama pull ${OLLAMA_LLM_MODEL}\``);
+        throw new Error(`Ollama LLM model "${model}" not found. Pull LLM model: \`ollama pull ${model}\``);
       }
 
       throw new Error(`Ollama API error (${response.status}): ${errorText}`);
@@ -224,19 +277,17 @@ export async function* generateStreamWithOllama(
 /**
  * Generate text using a local Ollama LLM
  * @param prompt - The prompt to send to the LLM
+ * @param model - LLM model (defaults to OLLAMA_LLM_MODEL)
  * @returns Generated text response
  */
-export async function generateWithOllama(prompt: string): Promise<string> {
+export async function generateWithOllama(prompt: string, model: string = OLLAMA_LLM_MODEL): Promise<string> {
   if (process.env.NODE_ENV === 'development') {
-    console.log(`[Ollama] Generating response using model: ${OLLAMA_LLM_MODEL}`);
+    console.log(`[Ollama] Generating response using model: ${model}`);
   }
 
   try {
-    // Limit prompt length to prevent memory issues
-    const maxPromptLength = 8000; // Characters
-    const truncatedPrompt = prompt.length > maxPromptLength 
-      ? prompt.substring(0, maxPromptLength) + '\n\n[Context truncated...]'
-      : prompt;
+    // Keep the prompt within the model's context window
+    const truncatedPrompt = fitPrompt(prompt, model);
 
     const response = await fetch(`${OLLAMA_BASE}/api/generate`, {
       method: 'POST',
@@ -244,12 +295,13 @@ export async function generateWithOllama(prompt: string): Promise<string> {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: OLLAMA_LLM_MODEL,
+        model,
         prompt: truncatedPrompt,
         stream: false,
         options: {
-          num_predict: 500, // Limit response length to prevent hanging
-          temperature: 0.7,
+          num_predict: NUM_PREDICT, // Limit response length to prevent hanging
+          num_ctx: getNumCtx(model),
+          temperature: TEMPERATURE,
         },
       }),
     });
@@ -264,7 +316,7 @@ export async function generateWithOllama(prompt: string): Promise<string> {
 
       // Handle model not found
       if (response.status === 404 || errorText.includes('model') || errorText.includes('not found')) {
-        throw new Error(`Ollama LLM model "${OLLAMA_LLM_MODEL}" not found. Pull LLM model: \`ollama pull ${OLLAMA_LLM_MODEL}\``);
+        throw new Error(`Ollama LLM model "${model}" not found. Pull LLM model: \`ollama pull ${model}\``);
       }
 
       throw new Error(`Ollama API error (${response.status}): ${errorText}`);
@@ -5,27 +5,64 @@
 
 import { readFile } from 'fs/promises';
 
+export interface PdfText {
+  text: string;
+  pages: number;
+  // Text of each page, in page order (index 0 = page 1)
+  pageTexts: string[];
+}
+
 /**
- * Extract text from a PDF file
- * @param filePath - Absolute path to the PDF file
- * @returns Object with extracted text and page count
+ * Render one page's text content, mirroring pdf-parse's default renderer
+ * (items on the same baseline are joined, new baselines start a new line)
+ */
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+/**
+ * Extract text from a PDF buffer, keeping page boundaries
+ * @param dataBuffer - Raw PDF bytes
+ * @returns Object with extracted text, page count, and per-page text
  */
-export async function extractTextFromPdf(filePath: string): Promise<{ text: string; pages: number }> {
+export async function extractTextFromPdfBuffer(dataBuffer: Buffer): Promise<PdfText> {
   try {
-    const dataBuffer = await readFile(filePath);
-    
     // pdf-parse v1 has a simple default export
     const pdfParse = (await import('pdf-parse')).default;
-    
-    const data = await pdfParse(dataBuffer);
-    
+
+    // pdf-parse renders pages sequentially, so pushing here preserves page order
+    const pageTexts: string[] = [];
+    const data = await pdfParse(dataBuffer, {
+      pagerender: async (pageData: any) => {
+        const text = await renderPage(pageData);
+        pageTexts.push(text);
+        return text;
+      },
+    });
+
     if (process.env.NODE_ENV === 'development') {
       console.log(`[PDF] Extracted ${data.text.length} chars from ${data.numpages} pages`);
     }
-    
+
     return {
       text: data.text,
       pages: data.numpages,
+      pageTexts,
     };
   } catch (error: any) {
     console.error('[PDF] Error details:', {
@@ -36,3 +73,12 @@ export async function extractTextFromPdf(filePath: string): Promise<{ text: stri
   }
 }
 
+/**
+ * Extract text from a PDF file
+ * @param filePath - Absolute path to the PDF file
+ * @returns Object with extracted text, page count, and per-page text
+ */
+export async function extractTextFromPdf(filePath: string): Promise<PdfText> {
+  const dataBuffer = await readFile(filePath);
+  return extractTextFromPdfBuffer(dataBuffer);
+}
@@ -0,0 +1,367 @@
+/**
+ * Retrieval + answer service shared by /api/query and /api/query-stream
+ * Validation, follow-up condensation, question embedding, hybrid retrieval,
+ * history/context budgeting, answer generation and persistence live here;
+ * routes only pick a transport
+ */
+
+import { prisma } from '@/lib/db';
+import { cfg } from '@/lib/config';
+import {
+  ANSWER_MAX_TOKENS,
+  embedTexts,
+  generateAnswer,
+  getEmbedModelName,
+  getLLMContextWindow,
+  resolveLLMModel,
+} from '@/lib/ai_providers';
+import { hybridSearch } from '@/lib/hybrid';
+import { buildContext, buildPrompt, contextTokenBudget } from '@/lib/rag';
+import { getTokenizer } from '@/lib/tokenizer';
+import { condenseQuestion, historyWindow, loadHistory, updateRollingSummary } from '@/lib/memory';
+import { getIndexStatus, StaleDocument } from '@/lib/reembed';
+import { describeScope, parseSearchScope, resolveScopeConversations, SearchScope } from '@/lib/scope';
+import { memberOf } from '@/lib/workspaces';
+
+// Non-streaming generation timeout (matches the providers' fetch timeout)
+const GENERATION_TIMEOUT_MS = 90000;
+
+/**
+ * Error with the HTTP status the routes should respond with
+ */
+export class QueryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'QueryError';
+    this.status = status;
+  }
+}
+
+export interface AnswerSource {
+  documentId: number;
+  chunkId: number;
+  filename: string;
+  chunkIndex: number;
+  page: number | null;
+  // Conversation the cited document belongs to
+  conversationId: number | null;
+  conversationTitle: string | null;
+}
+
+export interface PreparedQuery {
+  question: string;
+  // Standalone rewrite of the question used for retrieval
+  retrievalQuery: string;
+  conversationId: number;
+  // Which documents were searched
+  scope: SearchScope;
+  prompt: string;
+  sources: AnswerSource[];
+  // Number of chunks retrieved (before the context budget)
+  retrieved: number;
+  // LLM model that answers (requested by the client or the configured default)
+  model: string;
+  // Documents skipped by similarity search (not embedded with the active model)
+  staleDocuments: StaleDocument[];
+}
+
+/**
+ * Map an error to an HTTP status (provider errors are recognised by message)
+ */
+export function queryErrorStatus(error: any): number {
+  if (error instanceof QueryError) return error.status;
+
+  const message: string = error?.message || '';
+  if (message.includes('Cannot connect to Ollama server')) return 503;
+  if (message.includes('not found') || message.includes('Pull LLM model')) return 404;
+  return 500;
+}
+
+/**
+ * Validate a query request and retrieve its context
+ * @param body - Parsed request body ({ question, conversationId, model?, scope? })
+ * @param userId - The signed-in user; any member of the conversation's workspace may ask,
+ *                 and only that workspace is searched
+ * @returns Prompt, sources and model ready for generation
+ * @throws QueryError for invalid input, unknown conversations and empty retrieval
+ */
+export async function prepareQuery(body: any, userId: number): Promise<PreparedQuery> {
+  const { question, conversationId, model: requestedModel, scope: requestedScope } = body || {};
+
+  // Validate question
+  if (!isQuestion(question)) {
+    throw new QueryError('Valid question string is required', 400);
+  }
+
+  // Validate conversationId
+  if (!conversationId || typeof conversationId !== 'number') {
+    throw new QueryError('No conversationId. Create a chat first.', 400);
+  }
+
+  // Validate the search scope (defaults to this conversation)
+  const scope = parseSearchScope(requestedScope);
+  if (!scope) {
+    throw new QueryError(
+      "scope must be { type: 'conversation' | 'all' }, { type: 'conversations', conversationIds } or { type: 'tags', tags }",
+      400
+    );
+  }
+
+  // Validate the requested model against the provider's model list
+  if (requestedModel !== undefined && requestedModel !== null && typeof requestedModel !== 'string') {
+    throw new QueryError('model must be a string', 400);
+  }
+  const model = await resolveLLMModel(requestedModel);
+  if (!model) {
+    throw new QueryError(`Model "${requestedModel}" is not available. See /api/models for the installed models.`, 400);
+  }
+
+  // Check if conversation exists in one of the user's workspaces
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, ...memberOf(userId) },
+  });
+
+  if (!conversation) {
+    throw new QueryError(`Conversation with id ${conversationId} not found`, 404);
+  }
+
+  return retrieve(question, conversation.id, conversation.workspaceId!, scope, model);
+}
+
+/**
+ * Validate a follow-up question asked through a share link and retrieve its context
+ * Only the shared conversation's documents are searched, with the configured default model
+ * @param body - Parsed request body ({ question })
+ * @param conversationId - The conversation the link shares
+ * @throws QueryError for invalid input and empty retrieval
+ */
+export async function prepareSharedQuery(body: any, conversationId: number): Promise<PreparedQuery> {
+  const { question } = body || {};
+
+  if (!isQuestion(question)) {
+    throw new QueryError('Valid question string is required', 400);
+  }
+
+  const [conversation, model] = await Promise.all([
+    prisma.conversation.findUnique({ where: { id: conversationId }, select: { workspaceId: true } }),
+    resolveLLMModel(),
+  ]);
+  if (!conversation || !model) {
+    throw new QueryError('This conversation can no longer be asked', 404);
+  }
+
+  return retrieve(question, conversationId, conversation.workspaceId!, { type: 'conversation' }, model);
+}
+
+function isQuestion(question: unknown): question is string {
+  return typeof question === 'string' && question.trim().length > 0;
+}
+
+/**
+ * Condense, embed and retrieve context for a validated question
+ * @param workspaceId - Workspace of the conversation (bounds the scope)
+ */
+async function retrieve(
+  question: string,
+  conversationId: number,
+  workspaceId: number,
+  scope: SearchScope,
+  model: string
+): Promise<PreparedQuery> {
+  // Rewrite follow-ups into a standalone query using earlier turns
+  const history = await loadHistory(conversationId);
+  const retrievalQuery = await condenseQuestion(question, history, model);
+
+  // Create question embedding with the configured provider
+  const embedModel = getEmbedModelName();
+  const questionEmbeddings = await embedTexts([retrievalQuery]);
+  if (questionEmbeddings.length === 0 || !questionEmbeddings[0]?.length) {
+    throw new QueryError('Failed to create question embedding', 500);
+  }
+
+  // Hybrid retrieval: full-text + vector rankings fused with RRF over the scoped conversations
+  const chosen = await hybridSearch({
+    question: retrievalQuery,
+    queryVector: questionEmbeddings[0],
+    embedModel,
+    conversationIds: await resolveScopeConversations(scope, conversationId, workspaceId),
+    topK: cfg.TOP_K,
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[Query] Retrieved ${chosen.length} chunks from ${describeScope(scope)}`);
+  }
+
+  // Documents whose embeddings do not match the active model are invisible to similarity search
+  const { stale: staleDocuments } = await getIndexStatus(conversationId);
+
+  if (chosen.length === 0) {
+    if (scope.type !== 'conversation') {
+      throw new QueryError(`No embedded content found in ${describeScope(scope)}.`, 422);
+    }
+    if (staleDocuments.length > 0) {
+      throw new QueryError(
+        `${staleDocuments.length} document(s) in this conversation are not indexed for the embedding model ` +
+        `"${embedModel}". Re-embed them to search them.`,
+        422
+      );
+    }
+    throw new QueryError('No embedded content in this conversation yet. Upload some documents first.', 422);
+  }
+
+  // Budget history, then context, in tokens against the LLM's context window
+  // (history gets at most a quarter of what the bare prompt leaves free)
+  const llmTokenizer = getTokenizer(model);
+  const contextWindow = getLLMContextWindow(model);
+  const historyBudget = Math.min(
+    cfg.HISTORY_MAX_TOKENS,
+    Math.floor(contextTokenBudget(question, contextWindow, llmTokenizer, ANSWER_MAX_TOKENS) / 4)
+  );
+  const historyText = historyWindow(history, historyBudget, llmTokenizer);
+  const windowBudget = contextTokenBudget(question, contextWindow, llmTokenizer, ANSWER_MAX_TOKENS, historyText);
+  const maxContextTokens =
+    cfg.MAX_CONTEXT_TOKENS > 0 ? Math.min(cfg.MAX_CONTEXT_TOKENS, windowBudget) : windowBudget;
+
+  // Build context from chosen chunks (labelled with their conversation when it is another one)
+  const { context, sources } = buildContext(
+    chosen.map((c) => ({
+      id: c.id,
+      filename: c.filename,
+      chunkIndex: c.chunkIndex,
+      text: c.text,
+      page: c.page,
+      conversation: c.conversationId !== conversationId ? c.conversationTitle : null,
+    })),
+    maxContextTokens,
+    llmTokenizer
+  );
+
+  if (context.length === 0) {
+    throw new QueryError('No context could be built from retrieved chunks', 422);
+  }
+
+  // Attach documentId, chunkId and conversation to each cited source
+  const answerSources = sources.map((s) => {
+    const matchedChunk = chosen.find((c) => c.id === s.id);
+    return {
+      documentId: matchedChunk?.docId || 0,
+      chunkId: matchedChunk?.id || 0,
+      filename: s.filename,
+      chunkIndex: s.chunkIndex,
+      page: s.page,
+      conversationId: matchedChunk?.conversationId ?? null,
+      conversationTitle: matchedChunk?.conversationTitle ?? null,
+    };
+  });
+
+  return {
+    question,
+    retrievalQuery,
+    conversationId,
+    scope,
+    prompt: buildPrompt(question, context, historyText),
+    sources: answerSources,
+    retrieved: chosen.length,
+    model,
+    staleDocuments,
+  };
+}
+
+/**
+ * Generate the full answer for a prepared query (non-streaming)
+ */
+export async function answerQuery(prepared: PreparedQuery): Promise<string> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('LLM generation timeout after 90 seconds')), GENERATION_TIMEOUT_MS);
+  });
+
+  let result: Awaited<ReturnType<typeof generateAnswer>>;
+  try {
+    result = await Promise.race([generateAnswer(prepared.prompt, { model: prepared.model }), timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (typeof result !== 'string') {
+    // Providers only stream when asked to; drain defensively
+    let answer = '';
+    for await (const delta of result) answer += delta;
+    return answer.trim();
+  }
+  return result.trim();
+}
+
+/**
+ * Stream the answer for a prepared query
+ * Providers without streaming support yield their whole answer at once
+ */
+export async function* streamAnswer(
+  prepared: PreparedQuery,
+  signal?: AbortSignal
+): AsyncGenerator<string, void, unknown> {
+  const result = await generateAnswer(prepared.prompt, { stream: true, signal, model: prepared.model });
+
+  if (typeof result === 'string') {
+    yield result;
+    return;
+  }
+  yield* result;
+}
+
+/**
+ * Persist the question, answer and cited sources to the conversation
+ * Errors are logged, not thrown: the user already has their answer
+ */
+export async function saveExchange(prepared: PreparedQuery, answer: string): Promise<void> {
+  try {
+    // Create user message
+    await prisma.message.create({
+      data: {
+        conversationId: prepared.conversationId,
+        role: 'user',
+        content: prepared.question,
+      },
+    });
+
+    // Create assistant message
+    const assistantMessage = await prisma.message.create({
+      data: {
+        conversationId: prepared.conversationId,
+        role: 'assistant',
+        content: answer,
+        model: prepared.model,
+      },
+    });
+
+    // Create message sources
+    await prisma.messageSource.createMany({
+      data: prepared.sources.map((source) => ({
+        messageId: assistantMessage.id,
+        documentId: source.documentId,
+        chunkId: source.chunkId,
+        filename: source.filename,
+        chunkIndex: source.chunkIndex,
+        page: source.page,
+        conversationId: source.conversationId,
+        conversationTitle: source.conversationTitle,
+      })),
+    });
+
+    // Update conversation's updatedAt timestamp
+    await prisma.conversation.update({
+      where: { id: prepared.conversationId },
+      data: { updatedAt: new Date() },
+    });
+  } catch (dbError) {
+    console.error('[Query] Error persisting messages to database:', dbError);
+    return;
+  }
+
+  // Fold old turns into the rolling summary in the background
+  updateRollingSummary(prepared.conversationId, prepared.model, getTokenizer(prepared.model)).catch((error) => {
+    console.error('[Query] Error updating conversation summary:', error);
+  });
+}
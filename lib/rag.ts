@@ -3,54 +3,87 @@
  * Context building and prompt construction
  */
 
+import { getTokenizer, Tokenizer } from '@/lib/tokenizer';
+
 export interface ChunkSource {
+  // Chunk id (distinguishes same-named files from different conversations)
+  id?: number;
   filename: string;
   chunkIndex: number;
   text: string;
+  // First page of the chunk, when the source document has pages
+  page?: number | null;
+  // Title of the conversation the chunk comes from, when searching beyond the current one
+  conversation?: string | null;
+}
+
+export interface ContextSource {
+  id?: number;
+  filename: string;
+  chunkIndex: number;
+  page: number | null;
 }
 
 export interface BuiltContext {
   context: string;
-  sources: { filename: string; chunkIndex: number }[];
+  sources: ContextSource[];
+}
+
+/**
+ * Format a citation label: "filename#chunkIndex" or "filename#chunkIndex, p. N"
+ */
+export function formatCitation(source: {
+  filename: string;
+  chunkIndex: number;
+  page?: number | null;
+  conversation?: string | null;
+}): string {
+  const base = `${source.filename}#${source.chunkIndex}`;
+  const withPage = source.page ? `${base}, p. ${source.page}` : base;
+  return source.conversation ? `${withPage} (from "${source.conversation}")` : withPage;
 }
 
 /**
  * Build a context string from selected chunks
  * @param chosen - Array of chunks with metadata
- * @param maxChars - Maximum characters for the context
+ * @param maxTokens - Maximum tokens for the context
+ * @param tokenizer - Tokenizer of the LLM that will read the context
  * @returns Context string and source metadata
  */
 export function buildContext(
   chosen: ChunkSource[],
-  maxChars: number
+  maxTokens: number,
+  tokenizer: Tokenizer = getTokenizer()
 ): BuiltContext {
   if (chosen.length === 0) {
     return { context: '', sources: [] };
   }
 
   const contextParts: string[] = [];
-  const sources: { filename: string; chunkIndex: number }[] = [];
-  let currentLength = 0;
+  const sources: ContextSource[] = [];
+  let currentTokens = 0;
 
   for (const chunk of chosen) {
-    // Format: "Source: <filename>#<chunkIndex>\n<text>\n---\n"
-    const chunkText = `Source: ${chunk.filename}#${chunk.chunkIndex}\n${chunk.text}\n---\n`;
-    const chunkLength = chunkText.length;
+    // Format: "Source: <filename>#<chunkIndex>[, p. <page>][ (from "<conversation>")]\n<text>\n---\n"
+    const chunkText = `Source: ${formatCitation(chunk)}\n${chunk.text}\n---\n`;
+    const chunkTokens = tokenizer.count(chunkText);
 
-    // Check if adding this chunk would exceed maxChars
-    if (currentLength + chunkLength > maxChars && currentLength > 0) {
+    // Check if adding this chunk would exceed maxTokens
+    if (currentTokens + chunkTokens > maxTokens && currentTokens > 0) {
       break;
     }
 
     contextParts.push(chunkText);
-    currentLength += chunkLength;
+    currentTokens += chunkTokens;
 
     // Track source (avoid duplicates)
-    const sourceKey = `${chunk.filename}#${chunk.chunkIndex}`;
-    if (!sources.some((s) => `${s.filename}#${s.chunkIndex}` === sourceKey)) {
+    const sourceKey = chunk.id ?? `${chunk.filename}#${chunk.chunkIndex}`;
+    if (!sources.some((s) => (s.id ?? `${s.filename}#${s.chunkIndex}`) === sourceKey)) {
       sources.push({
+        id: chunk.id,
         filename: chunk.filename,
         chunkIndex: chunk.chunkIndex,
+        page: chunk.page ?? null,
       });
     }
   }
@@ -65,13 +98,23 @@ export function buildContext(
  * Build a prompt for the LLM with context and question
  * @param question - User's question
  * @param context - Retrieved context from chunks
+ * @param history - Earlier turns of the conversation (summary + recent messages), if any
  * @returns Formatted prompt string
  */
-export function buildPrompt(question: string, context: string): string {
+export function buildPrompt(question: string, context: string, history: string = ''): string {
+  const conversation = history
+    ? `
+The conversation so far is given for reference; answer the latest question.
+
+CONVERSATION:
+${history}
+`
+    : '';
+
   return `You are a helpful assistant. Use ONLY the context below to answer.
 If the context does not contain the answer, say "I can't find that in the notes."
-Cite sources as (filename#chunkIndex).
-
+Cite sources as (filename#chunkIndex), adding the page (filename#chunkIndex, p. N) when the source gives one.
+${conversation}
 CONTEXT:
 ${context}
 
@@ -82,3 +125,23 @@ ANSWER:
 `;
 }
 
+/**
+ * Tokens left for retrieved context once the prompt template, the question
+ * and the answer are accounted for
+ * @param question - User's question
+ * @param contextWindow - The LLM's context window in tokens
+ * @param tokenizer - Tokenizer of the LLM
+ * @param reserveTokens - Tokens reserved for the generated answer
+ * @param history - Conversation history included in the prompt
+ * @returns Token budget for buildContext (never negative)
+ */
+export function contextTokenBudget(
+  question: string,
+  contextWindow: number,
+  tokenizer: Tokenizer,
+  reserveTokens: number,
+  history: string = ''
+): number {
+  const promptTokens = tokenizer.count(buildPrompt(question, '', history));
+  return Math.max(0, contextWindow - reserveTokens - promptTokens);
+}
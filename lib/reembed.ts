@@ -0,0 +1,236 @@
+/**
+ * Re-embed / re-index documents
+ * After switching embedding providers or chunking settings, picks the documents
+ * of a scope (one document, a conversation, or a workspace's whole library) that need
+ * rebuilding and queues ingestion jobs for them. Each job swaps a document's
+ * chunks and embeddings atomically, so during a corpus run every document is
+ * either fully on the old model or fully on the new one
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ChunkStrategy } from '@/lib/chunk';
+import { getEmbedModelName } from '@/lib/ai_providers';
+import { parseChunkStrategy } from '@/lib/ingest';
+import { ACTIVE_JOB_STATUSES, enqueueIngestJob, kickIngestWorker } from '@/lib/jobs';
+
+export type ReembedScope =
+  | { documentId: number }
+  | { conversationId: number }
+  // Every document of one workspace
+  | { workspaceId: number };
+
+export interface ReembedOptions {
+  // Chunking strategy for the rebuilt chunks (defaults to CHUNK_STRATEGY)
+  chunking?: ChunkStrategy;
+  // Rebuild every document in scope, not only stale ones
+  force?: boolean;
+}
+
+export interface ReembedPlan {
+  // Embedding model the documents are rebuilt with
+  model: string;
+  chunking: ChunkStrategy;
+  queued: Array<{ documentId: number; jobId: number }>;
+  // Documents already embedded with the active model and chunking
+  upToDate: number;
+  // Documents skipped because an ingestion job is already pending for them
+  inProgress: number;
+}
+
+export interface StaleDocument {
+  documentId: number;
+  filename: string;
+  // not-indexed: no chunks or chunks without embeddings; stale-model: embedded with another model
+  reason: 'not-indexed' | 'stale-model';
+  // Model the existing embeddings were made with (stale-model only)
+  embeddedWith: string | null;
+}
+
+export interface IndexStatus {
+  // Active embedding model (the one queries are embedded with)
+  model: string;
+  // Documents in the conversation
+  total: number;
+  // Documents retrieval cannot search by similarity until they are re-embedded
+  stale: StaleDocument[];
+  // Documents with an ingestion job queued or running
+  indexing: number[];
+}
+
+/**
+ * Prisma filter for the documents of a scope that hold chunks
+ * Deduplicated uploads share their canonical document's chunks, so a duplicate
+ * in scope stands for its canonical document
+ */
+function scopeWhere(scope: ReembedScope): Prisma.DocumentWhereInput {
+  if ('documentId' in scope) {
+    return { canonicalId: null, OR: [{ id: scope.documentId }, { duplicates: { some: { id: scope.documentId } } }] };
+  }
+  if ('conversationId' in scope) {
+    return {
+      canonicalId: null,
+      OR: [
+        { conversationId: scope.conversationId },
+        { duplicates: { some: { conversationId: scope.conversationId } } },
+      ],
+    };
+  }
+  return { canonicalId: null, workspaceId: scope.workspaceId };
+}
+
+/**
+ * Ids of documents in scope that are not fully embedded with the given model
+ * (no chunks, chunks without embeddings, or embeddings from another model)
+ */
+async function findStaleDocuments(scope: ReembedScope, model: string): Promise<number[]> {
+  const documents = await prisma.document.findMany({
+    where: {
+      AND: [
+        scopeWhere(scope),
+        {
+          OR: [
+            { chunks: { none: {} } },
+            { chunks: { some: { embeddings: { none: {} } } } },
+            { chunks: { some: { embeddings: { some: { model: { not: model } } } } } },
+          ],
+        },
+      ],
+    },
+    select: { id: true },
+  });
+  return documents.map((d) => d.id);
+}
+
+/**
+ * Report which documents of a conversation are searchable with the active embedding model
+ * Documents with a pending ingestion job are listed under `indexing`, not `stale`
+ */
+export async function getIndexStatus(conversationId: number): Promise<IndexStatus> {
+  const model = getEmbedModelName();
+  const scope: ReembedScope = { conversationId };
+
+  const [total, staleIds, activeJobs] = await Promise.all([
+    prisma.document.count({ where: scopeWhere(scope) }),
+    findStaleDocuments(scope, model),
+    prisma.ingestJob.findMany({
+      where: { document: scopeWhere(scope), status: { in: ACTIVE_JOB_STATUSES } },
+      select: { documentId: true },
+      distinct: ['documentId'],
+    }),
+  ]);
+
+  const indexing = activeJobs.map((job) => job.documentId);
+  const staleOnly = staleIds.filter((id) => !indexing.includes(id));
+  if (staleOnly.length === 0) {
+    return { model, total, stale: [], indexing };
+  }
+
+  const documents = await prisma.document.findMany({
+    where: { id: { in: staleOnly } },
+    orderBy: { id: 'asc' },
+    select: {
+      id: true,
+      filename: true,
+      // One embedding from another model is enough to name it
+      chunks: {
+        where: { embeddings: { some: { model: { not: model } } } },
+        take: 1,
+        select: { embeddings: { where: { model: { not: model } }, take: 1, select: { model: true } } },
+      },
+    },
+  });
+
+  return {
+    model,
+    total,
+    stale: documents.map((doc) => {
+      const embeddedWith = doc.chunks[0]?.embeddings[0]?.model ?? null;
+      return {
+        documentId: doc.id,
+        filename: doc.filename,
+        reason: embeddedWith ? 'stale-model' : 'not-indexed',
+        embeddedWith,
+      };
+    }),
+    indexing,
+  };
+}
+
+/**
+ * Ids of documents whose last successful ingest used a different chunking strategy
+ */
+async function findRechunkDocuments(documentIds: number[], chunking: ChunkStrategy): Promise<number[]> {
+  if (documentIds.length === 0) return [];
+
+  const lastJobs = await prisma.ingestJob.findMany({
+    where: { documentId: { in: documentIds }, status: 'done' },
+    orderBy: { finishedAt: 'desc' },
+    distinct: ['documentId'],
+    select: { documentId: true, chunking: true },
+  });
+  return lastJobs.filter((job) => job.chunking !== chunking).map((job) => job.documentId);
+}
+
+/**
+ * Queue re-embedding for the documents of a scope
+ * Without `force`, only documents that are stale for the active embedding model
+ * (or, when `chunking` is given, were chunked differently) are rebuilt
+ */
+export async function reembedDocuments(
+  scope: ReembedScope,
+  options: ReembedOptions = {}
+): Promise<ReembedPlan> {
+  const model = getEmbedModelName();
+  const chunking = parseChunkStrategy(options.chunking);
+
+  const inScope = (
+    await prisma.document.findMany({ where: scopeWhere(scope), select: { id: true } })
+  ).map((d) => d.id);
+
+  let targets: number[];
+  if (options.force) {
+    targets = inScope;
+  } else {
+    const stale = new Set(await findStaleDocuments(scope, model));
+    if (options.chunking) {
+      for (const id of await findRechunkDocuments(inScope, chunking)) stale.add(id);
+    }
+    targets = inScope.filter((id) => stale.has(id));
+  }
+
+  // Leave documents alone that already have a job queued or running
+  const busy = new Set(
+    (
+      await prisma.ingestJob.findMany({
+        where: { documentId: { in: targets }, status: { in: ACTIVE_JOB_STATUSES } },
+        select: { documentId: true },
+      })
+    ).map((job) => job.documentId)
+  );
+
+  const queued: ReembedPlan['queued'] = [];
+  for (const documentId of targets) {
+    if (busy.has(documentId)) continue;
+    const job = await enqueueIngestJob(documentId, chunking);
+    queued.push({ documentId, jobId: job.id });
+  }
+
+  if (queued.length > 0) {
+    kickIngestWorker();
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(
+      `[Reembed] Queued ${queued.length} of ${inScope.length} documents (model ${model}, ${chunking} chunking)`
+    );
+  }
+
+  return {
+    model,
+    chunking,
+    queued,
+    upToDate: inScope.length - targets.length,
+    inProgress: busy.size,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Search scopes
+ * A question searches its own conversation by default; it can also search
+ * the whole library, a chosen set of conversations, or tagged collections
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export type SearchScope =
+  | { type: 'conversation' }
+  | { type: 'all' }
+  | { type: 'conversations'; conversationIds: number[] }
+  | { type: 'tags'; tags: string[] };
+
+// Longest tag accepted (tags are short collection labels)
+const MAX_TAG_LENGTH = 40;
+
+/**
+ * Normalize a tag: trimmed, lowercase, inner whitespace collapsed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize and de-duplicate a list of tags (empty entries dropped)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+/**
+ * Parse a scope from a request body
+ * @returns The scope (the current conversation when omitted), or null if malformed
+ */
+export function parseSearchScope(value: unknown): SearchScope | null {
+  if (value === undefined || value === null) {
+    return { type: 'conversation' };
+  }
+  if (typeof value !== 'object') {
+    return null;
+  }
+
+  const scope = value as Record<string, unknown>;
+  switch (scope.type) {
+    case 'conversation':
+    case 'all':
+      return { type: scope.type };
+    case 'conversations': {
+      const ids = scope.conversationIds;
+      if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id))) {
+        return null;
+      }
+      return { type: 'conversations', conversationIds: Array.from(new Set(ids as number[])) };
+    }
+    case 'tags': {
+      const tags = scope.tags;
+      if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string')) {
+        return null;
+      }
+      const normalized = normalizeTags(tags as string[]);
+      return normalized.length > 0 ? { type: 'tags', tags: normalized } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Conversations a scope searches, limited to the asking conversation's workspace
+ * @param conversationId - The conversation the question was asked in
+ * @param workspaceId - Its workspace
+ * @returns Conversation ids
+ */
+export async function resolveScopeConversations(
+  scope: SearchScope,
+  conversationId: number,
+  workspaceId: number
+): Promise<number[]> {
+  const inWorkspace = async (where: Prisma.ConversationWhereInput) =>
+    (
+      await prisma.conversation.findMany({
+        where: { ...where, workspaceId },
+        select: { id: true },
+      })
+    ).map((c) => c.id);
+
+  switch (scope.type) {
+    case 'conversation':
+      return [conversationId];
+    case 'all':
+      return inWorkspace({});
+    case 'conversations':
+      return inWorkspace({ id: { in: scope.conversationIds } });
+    case 'tags':
+      return inWorkspace({ tags: { hasSome: scope.tags } });
+  }
+}
+
+/**
+ * Short description of a scope for logs and responses
+ */
+export function describeScope(scope: SearchScope): string {
+  switch (scope.type) {
+    case 'conversation':
+      return 'this conversation';
+    case 'all':
+      return 'all documents';
+    case 'conversations':
+      return `${scope.conversationIds.length} conversation(s)`;
+    case 'tags':
+      return `tags: ${scope.tags.join(', ')}`;
+  }
+}
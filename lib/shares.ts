@@ -0,0 +1,191 @@
+/**
+ * Public share links
+ * A share link gives anyone holding its URL read-only access to one conversation,
+ * optionally with follow-up questions answered from the conversation's documents.
+ * Like sessions, only the SHA-256 of the token is stored; links can expire and be revoked
+ */
+
+import { randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { hashToken } from '@/lib/auth';
+
+// Longest expiry accepted when creating a link
+export const MAX_SHARE_DAYS = 365;
+
+/**
+ * Share link as listed to workspace members (never includes the token)
+ */
+export interface ShareLinkSummary {
+  id: number;
+  allowQuestions: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  // Email of the member who created it
+  createdBy: string | null;
+  // Not revoked and not expired
+  active: boolean;
+}
+
+/**
+ * Link a visitor opened, after checking it is still valid
+ */
+export interface ResolvedShareLink {
+  id: number;
+  conversationId: number;
+  allowQuestions: boolean;
+  expiresAt: Date | null;
+}
+
+export interface ShareOptions {
+  // Days until the link stops working (null = never)
+  expiresInDays: number | null;
+  allowQuestions: boolean;
+}
+
+const shareSelect = {
+  id: true,
+  allowQuestions: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: { select: { email: true } },
+} as const;
+
+function toSummary(share: {
+  id: number;
+  allowQuestions: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  createdBy: { email: string } | null;
+}): ShareLinkSummary {
+  return {
+    id: share.id,
+    allowQuestions: share.allowQuestions,
+    expiresAt: share.expiresAt?.toISOString() ?? null,
+    revokedAt: share.revokedAt?.toISOString() ?? null,
+    createdAt: share.createdAt.toISOString(),
+    createdBy: share.createdBy?.email ?? null,
+    active: !share.revokedAt && (!share.expiresAt || share.expiresAt > new Date()),
+  };
+}
+
+/**
+ * Validate the body of a create request
+ * @returns The options, or an error message
+ */
+export function parseShareOptions(body: any): ShareOptions | { error: string } {
+  const { expiresInDays, allowQuestions } = body || {};
+
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (typeof expiresInDays !== 'number' || !Number.isFinite(expiresInDays) || expiresInDays <= 0) {
+      return { error: 'expiresInDays must be a positive number or null' };
+    }
+    if (expiresInDays > MAX_SHARE_DAYS) {
+      return { error: `expiresInDays must be at most ${MAX_SHARE_DAYS}` };
+    }
+  }
+  if (allowQuestions !== undefined && typeof allowQuestions !== 'boolean') {
+    return { error: 'allowQuestions must be a boolean' };
+  }
+
+  return { expiresInDays: expiresInDays ?? null, allowQuestions: allowQuestions === true };
+}
+
+/**
+ * Create a share link for a conversation (callers check the user's role)
+ * @returns The token (shown once) and the link
+ */
+export async function createShareLink(
+  conversationId: number,
+  userId: number,
+  options: ShareOptions
+): Promise<{ token: string; share: ShareLinkSummary }> {
+  const token = randomBytes(24).toString('base64url');
+  const expiresAt =
+    options.expiresInDays !== null ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+  const share = await prisma.shareLink.create({
+    data: {
+      conversationId,
+      tokenHash: hashToken(token),
+      allowQuestions: options.allowQuestions,
+      expiresAt,
+      createdById: userId,
+    },
+    select: shareSelect,
+  });
+
+  return { token, share: toSummary(share) };
+}
+
+/**
+ * Share links of a conversation, newest first
+ */
+export async function listShareLinks(conversationId: number): Promise<ShareLinkSummary[]> {
+  const shares = await prisma.shareLink.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'desc' },
+    select: shareSelect,
+  });
+  return shares.map(toSummary);
+}
+
+/**
+ * Revoke a share link of a conversation (revoking twice keeps the first time)
+ * @returns The link, or null when the conversation has no such link
+ */
+export async function revokeShareLink(conversationId: number, shareId: number): Promise<ShareLinkSummary | null> {
+  const existing = await prisma.shareLink.findFirst({
+    where: { id: shareId, conversationId },
+    select: { revokedAt: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const share = await prisma.shareLink.update({
+    where: { id: shareId },
+    data: { revokedAt: existing.revokedAt ?? new Date() },
+    select: shareSelect,
+  });
+  return toSummary(share);
+}
+
+/**
+ * Look up the link for a URL token
+ * @returns null for unknown, revoked and expired links (visitors get 404 either way)
+ */
+export async function resolveShareLink(token: string): Promise<ResolvedShareLink | null> {
+  const share = await prisma.shareLink.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, conversationId: true, allowQuestions: true, expiresAt: true, revokedAt: true },
+  });
+  if (!share || share.revokedAt || (share.expiresAt && share.expiresAt <= new Date())) {
+    return null;
+  }
+
+  const { revokedAt: _revokedAt, ...resolved } = share;
+  return resolved;
+}
+
+/**
+ * A cited source as anonymous readers may see it
+ * Sources can come from other conversations of the workspace; their id and
+ * title are dropped so a link does not reveal conversations it does not share
+ */
+export function toPublicSource<T extends { conversationId: number | null; conversationTitle: string | null }>(source: T): T {
+  return { ...source, conversationId: null, conversationTitle: null };
+}
+
+/**
+ * 404 response for unknown, revoked and expired share links
+ */
+export function shareNotFound(): NextResponse {
+  return NextResponse.json(
+    { error: 'This share link does not exist, has expired or was revoked' },
+    { status: 404 }
+  );
+}
@@ -45,34 +45,27 @@ export function cosine(a: number[], b: number[]): number {
   return dotProduct / (normA * normB);
 }
 
+/**
+ * Minimal shape of an item that can be ranked by cosine similarity
+ */
+export interface RankableVector {
+  id: number;
+  vector: number[];
+}
+
 /**
  * Rank items by cosine similarity to a query vector
  * Optimized for performance with large datasets
  * @param query - Query vector
- * @param vectors - Array of items with vectors and metadata
+ * @param vectors - Array of items with vectors and metadata (metadata is passed through)
  * @param topK - Number of top results to return
  * @returns Top K items sorted by similarity (highest first)
  */
-export function rankByCosine(
+export function rankByCosine<T extends RankableVector>(
   query: number[],
-  vectors: {
-    id: number;
-    vector: number[];
-    docId: number;
-    chunkIndex: number;
-    filename: string;
-    text: string;
-  }[],
+  vectors: T[],
   topK: number
-): {
-  id: number;
-  vector: number[];
-  docId: number;
-  chunkIndex: number;
-  filename: string;
-  text: string;
-  similarity: number;
-}[] {
+): (T & { similarity: number })[] {
   if (vectors.length === 0) {
     return [];
   }
@@ -86,15 +79,7 @@ export function rankByCosine(
 
   // Use a min-heap approach: keep only top K in memory
   // This is more memory efficient than sorting all items
-  const topKHeap: Array<{
-    id: number;
-    vector: number[];
-    docId: number;
-    chunkIndex: number;
-    filename: string;
-    text: string;
-    similarity: number;
-  }> = [];
+  const topKHeap: (T & { similarity: number })[] = [];
 
   // Process vectors in batches to avoid blocking
   const BATCH_SIZE = 100;
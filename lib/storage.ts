@@ -1,21 +1,60 @@
 /**
- * Storage abstraction layer for handling PDF files
- * Supports both local filesystem and cloud storage (Vercel Blob)
+ * Storage abstraction layer for handling uploaded files (PDF, Markdown, DOCX, ...)
+ * - local: files under UPLOAD_DIR
+ * - s3: any S3-compatible object store (AWS S3, MinIO, R2, ...)
+ * - vercel-blob: private Vercel Blob store
+ * Every driver works on buffers; the returned key is what Document.originalPath stores
  */
 
-import { mkdir, writeFile, readFile, unlink } from 'fs/promises';
-import { existsSync } from 'fs';
-import { join, resolve } from 'path';
-import { cfg, isLocalStorage } from '@/lib/config';
+import { mkdir, writeFile, readFile, unlink, stat } from 'fs/promises';
+import { createReadStream, existsSync } from 'fs';
+import { Readable } from 'stream';
+import { createHash, createHmac } from 'crypto';
+import { join, resolve, sep } from 'path';
+import { put, get, head, del, BlobNotFoundError } from '@vercel/blob';
+import { cfg } from '@/lib/config';
+import { ALLOWED_EXTENSIONS } from '@/lib/constants';
+
+export type StorageDriverName = 'local' | 's3' | 'vercel-blob';
 
 /**
- * Result of saving a PDF file
+ * Result of saving a file
  */
 export interface SaveResult {
+  // Storage key (local path, object key or blob URL) saved as Document.originalPath
   url: string;
+  // Sanitized, timestamped file name
+  filename: string;
   sizeBytes: number;
 }
 
+/**
+ * Inclusive byte range of a stored file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageDriver {
+  driver: StorageDriverName;
+  save(buffer: Buffer, filename: string, contentType?: string): Promise<SaveResult>;
+  // Rejects with code 'ENOENT' when the file does not exist
+  read(key: string): Promise<Buffer>;
+  // Size in bytes (rejects with code 'ENOENT' like read)
+  size(key: string): Promise<number>;
+  // The file, or one range of it, without buffering it in memory
+  stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Error raised for missing files, shaped like fs errors so callers can check code === 'ENOENT'
+ */
+function fileNotFound(key: string): Error {
+  return Object.assign(new Error(`File not found: ${key}`), { code: 'ENOENT' });
+}
+
 /**
  * Ensures the upload directory exists, creating it if necessary
  */
@@ -29,158 +68,336 @@ async function ensureUploadDir(dirPath: string): Promise<void> {
  * Sanitizes a filename by:
  * - Converting to lowercase
  * - Replacing spaces and unsafe characters with hyphens
- * - Ensuring .pdf extension
+ * - Keeping a supported extension (falls back to .pdf)
  * - Removing consecutive hyphens
  */
 function sanitizeFilename(originalName: string): string {
   // Remove extension temporarily
-  const nameWithoutExt = originalName.replace(/\.pdf$/i, '');
-  
+  const extMatch = originalName.toLowerCase().match(/\.[a-z0-9]+$/);
+  const knownExt = extMatch && ALLOWED_EXTENSIONS.includes(extMatch[0]) ? extMatch[0] : null;
+  const ext = knownExt || '.pdf';
+  const nameWithoutExt = knownExt ? originalName.slice(0, -knownExt.length) : originalName;
+
   // Sanitize: lowercase, replace unsafe chars with hyphens
   let safe = nameWithoutExt
     .toLowerCase()
     .replace(/[^a-z0-9]/g, '-')  // Replace non-alphanumeric with hyphen
     .replace(/-+/g, '-')          // Replace consecutive hyphens with single hyphen
     .replace(/^-|-$/g, '');       // Remove leading/trailing hyphens
-  
+
   // Fallback if name becomes empty after sanitization
   if (!safe) {
     safe = 'document-' + Date.now();
   }
-  
-  // Always ensure .pdf extension
-  return safe + '.pdf';
+
+  return safe + ext;
 }
 
 /**
- * Save a PDF file to storage (local or cloud)
- * @param buffer - PDF file buffer
- * @param filename - Original filename
- * @returns Object with URL/path and size
+ * Unique stored name: sanitized filename prefixed with a timestamp
+ */
+function uniqueFilename(originalName: string): string {
+  return `${Date.now()}-${sanitizeFilename(originalName)}`;
+}
+
+/**
+ * Resolve a file path to absolute path from project root
+ * @param filePath - Relative or absolute file path
+ * @returns Absolute path
  */
-export async function savePdf(buffer: Buffer, filename: string): Promise<SaveResult> {
-  if (isLocalStorage()) {
-    // Local filesystem storage
+function resolveFilePath(filePath: string): string {
+  return resolve(process.cwd(), filePath);
+}
+
+const localDriver: StorageDriver = {
+  driver: 'local',
+
+  async save(buffer, filename) {
     const dirPath = cfg.UPLOAD_DIR;
     await ensureUploadDir(dirPath);
-    
-    const safeFilename = sanitizeFilename(filename);
-    const timestamp = Date.now();
-    const uniqueFilename = `${timestamp}-${safeFilename}`;
-    const savedPath = join(dirPath, uniqueFilename);
-    
+
+    const storedName = uniqueFilename(filename);
+    const savedPath = join(dirPath, storedName);
     await writeFile(savedPath, buffer);
-    
-    return {
-      url: savedPath,
-      sizeBytes: buffer.length,
-    };
-  } else if (cfg.STORAGE_DRIVER === 'vercel-blob') {
-    // Vercel Blob storage (placeholder implementation)
-    if (!cfg.VERCEL_BLOB_READ_WRITE_TOKEN) {
-      throw new Error('VERCEL_BLOB_READ_WRITE_TOKEN not configured');
+
+    return { url: savedPath, filename: storedName, sizeBytes: buffer.length };
+  },
+
+  async read(key) {
+    return readFile(resolveFilePath(key));
+  },
+
+  async size(key) {
+    return (await stat(resolveFilePath(key))).size;
+  },
+
+  async stream(key, range) {
+    const absolutePath = resolveFilePath(key);
+    // Fail with ENOENT here rather than on the first read of the stream
+    await stat(absolutePath);
+    const file = createReadStream(absolutePath, range ? { start: range.start, end: range.end } : undefined);
+    return Readable.toWeb(file) as ReadableStream<Uint8Array>;
+  },
+
+  async delete(key) {
+    const absolutePath = resolveFilePath(key);
+
+    // Safety check: only files inside the upload directory are removed
+    const uploadDir = resolveFilePath(cfg.UPLOAD_DIR);
+    if (!absolutePath.startsWith(uploadDir + sep)) {
+      throw new Error(`Refusing to delete file outside UPLOAD_DIR: ${absolutePath}`);
     }
-    
-    // TODO: Implement Vercel Blob upload
-    // For now, this is a placeholder that would use @vercel/blob package
-    // Example implementation:
-    // import { put } from '@vercel/blob';
-    // const blob = await put(filename, buffer, {
-    //   access: 'public',
-    //   token: cfg.VERCEL_BLOB_READ_WRITE_TOKEN,
-    // });
-    // return { url: blob.url, sizeBytes: buffer.length };
-    
-    throw new Error('Vercel Blob storage not yet implemented. Set STORAGE_DRIVER=local or implement Vercel Blob integration.');
-  } else {
-    throw new Error(`Unknown storage driver: ${cfg.STORAGE_DRIVER}`);
+    await unlink(absolutePath);
+  },
+};
+
+/**
+ * URI-encode a path segment the way S3 signs it (RFC 3986 unreserved characters kept)
+ */
+function encodeS3Segment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Send a request to the configured S3-compatible store, signed with AWS Signature V4
+ */
+async function s3Request(
+  method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+  key: string,
+  body?: Buffer,
+  contentType?: string,
+  range?: ByteRange
+): Promise<Response> {
+  if (!cfg.S3_BUCKET) {
+    throw new Error('S3_BUCKET not configured. Set it in environment variables.');
+  }
+  if (!cfg.S3_ACCESS_KEY_ID || !cfg.S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY not configured. Set them in environment variables.');
   }
+
+  // Path-style (endpoint/bucket/key) suits MinIO and most self-hosted stores
+  const endpoint = new URL(cfg.S3_ENDPOINT || `https://s3.${cfg.S3_REGION}.amazonaws.com`);
+  const objectPath = key.split('/').map(encodeS3Segment).join('/');
+  const url = cfg.S3_FORCE_PATH_STYLE
+    ? new URL(`${endpoint.origin}/${encodeS3Segment(cfg.S3_BUCKET)}/${objectPath}`)
+    : new URL(`${endpoint.protocol}//${cfg.S3_BUCKET}.${endpoint.host}/${objectPath}`);
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body ?? '');
+  const scope = `${dateStamp}/${cfg.S3_REGION}/s3/aws4_request`;
+
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (k, part) => hmac(k, part),
+    hmac(hmac(`AWS4${cfg.S3_SECRET_ACCESS_KEY}`, dateStamp), cfg.S3_REGION)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  const headers: Record<string, string> = {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${cfg.S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+  if (contentType) {
+    headers['Content-Type'] = contentType;
+  }
+  // Left out of the signature, which only covers SignedHeaders
+  if (range) {
+    headers.Range = `bytes=${range.start}-${range.end}`;
+  }
+
+  return fetch(url, {
+    method,
+    headers,
+    body: body ? new Uint8Array(body) : undefined,
+  });
 }
 
 /**
- * Read a PDF file from storage (local or cloud)
- * @param pathOrUrl - File path (local) or URL (cloud)
- * @returns PDF file buffer
- */
-export async function readPdf(pathOrUrl: string): Promise<Buffer> {
-  if (isLocalStorage()) {
-    // Local filesystem read
-    const absolutePath = resolveFilePath(pathOrUrl);
-    return await readFile(absolutePath);
-  } else if (cfg.STORAGE_DRIVER === 'vercel-blob') {
-    // Vercel Blob download (placeholder)
-    // TODO: Implement Vercel Blob download
-    // Example:
-    // const response = await fetch(pathOrUrl);
-    // const arrayBuffer = await response.arrayBuffer();
-    // return Buffer.from(arrayBuffer);
-    
-    throw new Error('Vercel Blob storage not yet implemented');
-  } else {
-    throw new Error(`Unknown storage driver: ${cfg.STORAGE_DRIVER}`);
+ * Build a readable error for a failed S3 response
+ */
+async function s3Error(action: string, key: string, response: Response): Promise<Error> {
+  const detail = (await response.text().catch(() => '')).match(/<Message>(.*?)<\/Message>/)?.[1];
+  return new Error(`S3 ${action} failed for ${key}: ${response.status} ${detail || response.statusText}`);
+}
+
+const s3Driver: StorageDriver = {
+  driver: 's3',
+
+  async save(buffer, filename, contentType) {
+    const storedName = uniqueFilename(filename);
+    const key = cfg.S3_PREFIX ? `${cfg.S3_PREFIX.replace(/\/+$/, '')}/${storedName}` : storedName;
+
+    const response = await s3Request('PUT', key, buffer, contentType);
+    if (!response.ok) {
+      throw await s3Error('upload', key, response);
+    }
+    return { url: key, filename: storedName, sizeBytes: buffer.length };
+  },
+
+  async read(key) {
+    const response = await s3Request('GET', key);
+    if (response.status === 404) {
+      throw fileNotFound(key);
+    }
+    if (!response.ok) {
+      throw await s3Error('download', key, response);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async size(key) {
+    const response = await s3Request('HEAD', key);
+    if (response.status === 404) {
+      throw fileNotFound(key);
+    }
+    if (!response.ok) {
+      throw await s3Error('head', key, response);
+    }
+    return Number(response.headers.get('content-length'));
+  },
+
+  async stream(key, range) {
+    const response = await s3Request('GET', key, undefined, undefined, range);
+    if (response.status === 404) {
+      throw fileNotFound(key);
+    }
+    if (!response.ok || !response.body) {
+      throw await s3Error('download', key, response);
+    }
+    return response.body;
+  },
+
+  async delete(key) {
+    // S3 answers 204 for missing objects too
+    const response = await s3Request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw await s3Error('delete', key, response);
+    }
+  },
+};
+
+/**
+ * Read-write token for Vercel Blob
+ */
+function getBlobToken(): string {
+  if (!cfg.VERCEL_BLOB_READ_WRITE_TOKEN) {
+    throw new Error('VERCEL_BLOB_READ_WRITE_TOKEN not configured. Set it in environment variables.');
   }
+  return cfg.VERCEL_BLOB_READ_WRITE_TOKEN;
 }
 
+const vercelBlobDriver: StorageDriver = {
+  driver: 'vercel-blob',
+
+  async save(buffer, filename, contentType) {
+    const storedName = uniqueFilename(filename);
+    // Private blobs: files are only served through /api/documents/[id]/file
+    const blob = await put(`uploads/${storedName}`, buffer, {
+      access: 'private',
+      token: getBlobToken(),
+      contentType,
+      addRandomSuffix: true,
+    });
+    return { url: blob.url, filename: storedName, sizeBytes: buffer.length };
+  },
+
+  async read(key) {
+    const result = await get(key, { access: 'private', token: getBlobToken() });
+    if (!result || !result.stream) {
+      throw fileNotFound(key);
+    }
+    return Buffer.from(await new Response(result.stream).arrayBuffer());
+  },
+
+  async size(key) {
+    try {
+      return (await head(key, { token: getBlobToken() })).size;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        throw fileNotFound(key);
+      }
+      throw error;
+    }
+  },
+
+  async stream(key, range) {
+    const result = await get(key, {
+      access: 'private',
+      token: getBlobToken(),
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+    });
+    if (!result || !result.stream) {
+      throw fileNotFound(key);
+    }
+    return result.stream;
+  },
+
+  async delete(key) {
+    await del(key, { token: getBlobToken() });
+  },
+};
+
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  local: localDriver,
+  s3: s3Driver,
+  'vercel-blob': vercelBlobDriver,
+};
+
 /**
- * Delete a PDF file from storage (local or cloud)
- * @param pathOrUrl - File path (local) or URL (cloud)
+ * Get the configured storage driver (STORAGE_DRIVER, default 'local')
  */
-export async function deletePdf(pathOrUrl: string): Promise<void> {
-  if (isLocalStorage()) {
-    // Local filesystem delete
-    const absolutePath = resolveFilePath(pathOrUrl);
-    await unlink(absolutePath);
-  } else if (cfg.STORAGE_DRIVER === 'vercel-blob') {
-    // Vercel Blob delete (placeholder)
-    // TODO: Implement Vercel Blob delete
-    // Example:
-    // import { del } from '@vercel/blob';
-    // await del(pathOrUrl, { token: cfg.VERCEL_BLOB_READ_WRITE_TOKEN });
-    
-    throw new Error('Vercel Blob storage not yet implemented');
-  } else {
-    throw new Error(`Unknown storage driver: ${cfg.STORAGE_DRIVER}`);
+export function getStorage(driver: string = cfg.STORAGE_DRIVER): StorageDriver {
+  const storage = drivers[driver as StorageDriverName];
+  if (!storage) {
+    throw new Error(`Unknown storage driver: ${driver}. Use local, s3 or vercel-blob.`);
   }
+  return storage;
 }
 
 /**
- * Resolve a file path to absolute path from project root
- * @param filePath - Relative or absolute file path
- * @returns Absolute path
+ * Save an uploaded file to the configured storage
+ * @param buffer - File contents
+ * @param filename - Original filename
+ * @param contentType - MIME type recorded with the object (cloud drivers)
+ * @returns Storage key, stored name and size
  */
-export function resolveFilePath(filePath: string): string {
-  return resolve(process.cwd(), filePath);
+export async function savePdf(buffer: Buffer, filename: string, contentType?: string): Promise<SaveResult> {
+  return getStorage().save(buffer, filename, contentType);
 }
 
 /**
- * Legacy function for backward compatibility
- * Saves a PDF file to disk with sanitized filename
- */
-export async function savePdfToDisk(
-  file: File,
-  dirPath: string
-): Promise<{ savedPath: string; safeFilename: string; sizeBytes: number }> {
-  // Ensure directory exists
-  await ensureUploadDir(dirPath);
-  
-  // Sanitize the filename
-  const safeFilename = sanitizeFilename(file.name);
-  
-  // Create unique filename by prepending timestamp if file exists
-  const timestamp = Date.now();
-  const uniqueFilename = `${timestamp}-${safeFilename}`;
-  const savedPath = join(dirPath, uniqueFilename);
-  
-  // Convert Web File to Buffer
-  const arrayBuffer = await file.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  
-  // Write to disk
-  await writeFile(savedPath, buffer);
-  
-  return {
-    savedPath,
-    safeFilename: uniqueFilename,
-    sizeBytes: buffer.length,
-  };
+ * Read a stored file
+ * @param key - Document.originalPath (local path, object key or blob URL)
+ * @returns File buffer
+ */
+export async function readPdf(key: string): Promise<Buffer> {
+  return getStorage().read(key);
+}
+
+/**
+ * Delete a stored file
+ * @param key - Document.originalPath (local path, object key or blob URL)
+ */
+export async function deletePdf(key: string): Promise<void> {
+  return getStorage().delete(key);
 }
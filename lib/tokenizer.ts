@@ -0,0 +1,177 @@
+/**
+ * Tokenizer abstraction
+ * Local, dependency-free approximations of the BPE / SentencePiece / WordPiece
+ * tokenizers used by each model family. Text is pre-tokenized with the same
+ * kind of split pattern the real tokenizers use, then each piece is costed
+ * from the family's average subword length. Counts are approximate but
+ * close enough on English prose to budget chunks and prompts.
+ */
+
+export type TokenizerFamily = 'tiktoken' | 'sentencepiece' | 'wordpiece';
+
+export interface Tokenizer {
+  family: TokenizerFamily;
+  // Number of tokens in the text
+  count(text: string): number;
+  // Longest prefix of the text that fits in maxTokens (cut at a piece boundary)
+  truncate(text: string, maxTokens: number): string;
+}
+
+interface FamilyProfile {
+  // Pre-tokenizer: every character must be covered by some alternative
+  pattern: RegExp;
+  // Letters in a word that still encode as a single token
+  wholeWordChars: number;
+  // Average letters per token for the remainder of longer words
+  charsPerToken: number;
+  // Tokens per non-ASCII character (CJK, emoji, accented text)
+  nonAsciiTokensPerChar: number;
+  // Whether a run of whitespace costs a token of its own
+  whitespaceIsToken: boolean;
+}
+
+const PROFILES: Record<TokenizerFamily, FamilyProfile> = {
+  // GPT-3.5/4 (cl100k/o200k) and Llama 3 (128k tiktoken vocab)
+  tiktoken: {
+    pattern: /'(?:[sdmt]|ll|ve|re)| ?[A-Za-z]+| ?[0-9]{1,3}| ?[^\sA-Za-z0-9\u0080-\uFFFF]+| ?[\u0080-\uFFFF]+|\s+/g,
+    wholeWordChars: 7,
+    charsPerToken: 4,
+    nonAsciiTokensPerChar: 1,
+    whitespaceIsToken: true,
+  },
+  // Llama 2, Mistral, Gemma, Phi (32k-256k SentencePiece vocabs)
+  sentencepiece: {
+    pattern: / ?[A-Za-z]+| ?[0-9]| ?[^\sA-Za-z0-9\u0080-\uFFFF]| ?[\u0080-\uFFFF]+|\s+/g,
+    wholeWordChars: 5,
+    charsPerToken: 3,
+    nonAsciiTokensPerChar: 1.5,
+    whitespaceIsToken: false,
+  },
+  // BERT-style embedding models (MiniLM, BGE, E5, nomic)
+  wordpiece: {
+    pattern: /[A-Za-z]+|[0-9]+|[^\sA-Za-z0-9]|\s+/g,
+    wholeWordChars: 6,
+    charsPerToken: 3,
+    nonAsciiTokensPerChar: 1,
+    whitespaceIsToken: false,
+  },
+};
+
+/**
+ * Cost of one pre-tokenized piece under a profile
+ */
+function pieceTokens(piece: string, profile: FamilyProfile): number {
+  const body = piece.replace(/^ /, '');
+
+  if (body.length === 0 || /^\s+$/.test(piece)) {
+    // Whitespace runs (newlines, indentation)
+    return profile.whitespaceIsToken ? 1 : 0;
+  }
+
+  if (/[\u0080-\uFFFF]/.test(body)) {
+    return Math.max(1, Math.ceil(body.length * profile.nonAsciiTokensPerChar));
+  }
+
+  if (/^[A-Za-z]+$/.test(body)) {
+    if (body.length <= profile.wholeWordChars) return 1;
+    return 1 + Math.ceil((body.length - profile.wholeWordChars) / profile.charsPerToken);
+  }
+
+  if (/^[0-9]+$/.test(body)) {
+    // Digit groups of 1-3 encode as one token
+    return Math.ceil(body.length / 3);
+  }
+
+  // Punctuation and symbols: common pairs merge
+  return Math.ceil(body.length / 2);
+}
+
+/**
+ * Build a tokenizer for a family profile
+ */
+function createTokenizer(family: TokenizerFamily): Tokenizer {
+  const profile = PROFILES[family];
+
+  const pieces = (text: string): RegExpMatchArray[] =>
+    Array.from(text.matchAll(new RegExp(profile.pattern.source, 'g')));
+
+  return {
+    family,
+    count(text: string): number {
+      if (!text) return 0;
+      let total = 0;
+      for (const match of pieces(text)) {
+        total += pieceTokens(match[0], profile);
+      }
+      return total;
+    },
+    truncate(text: string, maxTokens: number): string {
+      if (maxTokens <= 0) return '';
+      let total = 0;
+      for (const match of pieces(text)) {
+        const cost = pieceTokens(match[0], profile);
+        if (total + cost > maxTokens) {
+          return text.slice(0, match.index);
+        }
+        total += cost;
+      }
+      return text;
+    },
+  };
+}
+
+const TOKENIZERS: Record<TokenizerFamily, Tokenizer> = {
+  tiktoken: createTokenizer('tiktoken'),
+  sentencepiece: createTokenizer('sentencepiece'),
+  wordpiece: createTokenizer('wordpiece'),
+};
+
+/**
+ * Guess the tokenizer family from a model name
+ */
+export function getTokenizerFamily(model?: string | null): TokenizerFamily {
+  const name = (model || '').toLowerCase();
+
+  if (/minilm|bert|bge|e5|nomic|mxbai|gte|snowflake/.test(name)) {
+    return 'wordpiece';
+  }
+  if (/llama-?2|mistral|mixtral|gemma|phi|tinyllama|vicuna|voyage/.test(name)) {
+    return 'sentencepiece';
+  }
+  // GPT, text-embedding-3, Llama 3.x, Qwen, DeepSeek and unknown models
+  return 'tiktoken';
+}
+
+/**
+ * Get the tokenizer for a model (defaults to a GPT-style tokenizer)
+ */
+export function getTokenizer(model?: string | null): Tokenizer {
+  return TOKENIZERS[getTokenizerFamily(model)];
+}
+
+// Known context windows, first match wins
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o[134]-|o[134]$/, 128000],
+  [/gpt-3\.5/, 16385],
+  [/gpt-4/, 8192],
+  [/llama-?3\.[1-3]|llama3\.[1-3]/, 131072],
+  [/llama-?3/, 8192],
+  [/llama-?2/, 4096],
+  [/mistral|mixtral|qwen/, 32768],
+  [/gemma/, 8192],
+  [/phi/, 4096],
+];
+
+// Conservative default for unknown models
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+/**
+ * Get the context window (in tokens) of a model by name
+ */
+export function getModelContextWindow(model?: string | null): number {
+  const name = (model || '').toLowerCase();
+  for (const [pattern, window] of CONTEXT_WINDOWS) {
+    if (pattern.test(name)) return window;
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
@@ -57,6 +57,8 @@ export const STORAGE_KEYS = {
   THEME: 'sb_theme',
   FONT_SIZE: 'sb_fontsize',
   MODEL: 'sb_model',
+  SEARCH_SCOPE: 'sb_search_scope',
+  OCR_MODE: 'sb_ocr_mode',
   CONVERSATIONS: 'sb_conversations',
 } as const;
 
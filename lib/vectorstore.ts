@@ -0,0 +1,226 @@
+/**
+ * Vector store abstraction
+ * - pgvector: top-K in SQL over the typed "embedding" column (HNSW-indexed per dimension)
+ * - memory: loads JSON vectors into Node and ranks them with rankByCosine (fallback)
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { cfg } from '@/lib/config';
+import { rankByCosine } from '@/lib/similarity';
+
+export type VectorStoreDriver = 'pgvector' | 'memory';
+
+export interface VectorEntry {
+  chunkId: number;
+  vector: number[];
+  model: string;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  // Embedding model that produced `vector`; only embeddings from it are compared
+  model: string;
+  // Conversations to search; null searches every document
+  conversationIds: number[] | null;
+  limit: number;
+}
+
+export interface VectorMatch {
+  chunkId: number;
+  similarity: number;
+}
+
+export interface VectorStore {
+  driver: VectorStoreDriver;
+  // Persist embeddings for chunks (optionally inside a transaction); returns the number stored
+  add(entries: VectorEntry[], db?: Prisma.TransactionClient): Promise<number>;
+  // Nearest chunks of the given conversations by cosine similarity, best first
+  search(query: VectorQuery): Promise<VectorMatch[]>;
+}
+
+// Largest dimension pgvector can index with HNSW
+const MAX_INDEXED_DIMENSIONS = 2000;
+
+let pgvectorReady: Promise<boolean> | null = null;
+
+/**
+ * Store embeddings through Prisma
+ * The JSON vector is the source of truth; the database derives the typed
+ * "embedding" and "dimensions" columns from it (see migration)
+ */
+async function addEntries(entries: VectorEntry[], db: Prisma.TransactionClient = prisma): Promise<number> {
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  const result = await db.embedding.createMany({
+    data: entries.map((entry) => ({
+      chunkId: entry.chunkId,
+      vector: entry.vector,
+      model: entry.model,
+    })),
+  });
+  return result.count;
+}
+
+/**
+ * SQL condition restricting Document "d" to the given conversations (null = no restriction)
+ * A document also matches when one of its duplicates (same content uploaded
+ * elsewhere, sharing its chunks) belongs to one of the conversations
+ */
+export function conversationFilter(conversationIds: number[] | null): Prisma.Sql {
+  if (conversationIds === null) {
+    return Prisma.sql`TRUE`;
+  }
+  if (conversationIds.length === 0) {
+    return Prisma.sql`FALSE`;
+  }
+  const ids = Prisma.join(conversationIds);
+  return Prisma.sql`(d."conversationId" IN (${ids}) OR EXISTS (
+    SELECT 1 FROM "Document" dup WHERE dup."canonicalId" = d."id" AND dup."conversationId" IN (${ids})
+  ))`;
+}
+
+/**
+ * Prisma equivalent of conversationFilter for chunk and embedding queries
+ */
+export function documentScopeWhere(conversationIds: number[] | null): Prisma.DocumentWhereInput {
+  if (conversationIds === null) {
+    return {};
+  }
+  return {
+    OR: [
+      { conversationId: { in: conversationIds } },
+      { duplicates: { some: { conversationId: { in: conversationIds } } } },
+    ],
+  };
+}
+
+/**
+ * In-memory store: scores vectors in Node (capped at MAX_EMBEDDINGS_SEARCH)
+ */
+const memoryStore: VectorStore = {
+  driver: 'memory',
+  add: addEntries,
+  async search({ vector, model, conversationIds, limit }) {
+    const embeddings = await prisma.embedding.findMany({
+      take: cfg.MAX_EMBEDDINGS_SEARCH,
+      where: {
+        model,
+        ...(conversationIds ? { chunk: { document: documentScopeWhere(conversationIds) } } : {}),
+      },
+      select: {
+        chunkId: true,
+        vector: true,
+      },
+    });
+
+    const rows = embeddings
+      .map((emb) => ({ id: emb.chunkId, vector: emb.vector as number[] }))
+      .filter((row) => Array.isArray(row.vector) && row.vector.length === vector.length);
+
+    return rankByCosine(vector, rows, limit).map((r) => ({
+      chunkId: r.id,
+      similarity: r.similarity,
+    }));
+  },
+};
+
+/**
+ * pgvector store: cosine distance ordering runs in Postgres
+ * The column is untyped (models differ in dimension), so queries cast to
+ * vector(N) and filter on "dimensions" to match the per-dimension HNSW index;
+ * filtering on "model" keeps same-sized vectors from another model out
+ */
+const pgvectorStore: VectorStore = {
+  driver: 'pgvector',
+  add: addEntries,
+  async search({ vector, model, conversationIds, limit }) {
+    const dimensions = vector.length;
+    if (!Number.isInteger(dimensions) || dimensions === 0 || conversationIds?.length === 0) {
+      return [];
+    }
+
+    // Typmods cannot be bound as parameters; dimensions is a validated integer
+    const vectorType = Prisma.raw(
+      dimensions <= MAX_INDEXED_DIMENSIONS ? `vector(${dimensions})` : 'vector'
+    );
+    const queryVector = JSON.stringify(vector);
+
+    const rows = await prisma.$queryRaw<Array<{ chunkId: number; similarity: number }>>`
+      SELECT e."chunkId" AS "chunkId",
+             1 - (e."embedding"::${vectorType} <=> ${queryVector}::${vectorType}) AS similarity
+      FROM "Embedding" e
+      JOIN "Chunk" c ON c."id" = e."chunkId"
+      JOIN "Document" d ON d."id" = c."documentId"
+      WHERE ${conversationFilter(conversationIds)}
+        AND e."model" = ${model}
+        AND e."dimensions" = ${dimensions}
+      ORDER BY e."embedding"::${vectorType} <=> ${queryVector}::${vectorType}
+      LIMIT ${limit}
+    `;
+
+    return rows.map((r) => ({
+      chunkId: Number(r.chunkId),
+      similarity: Number(r.similarity),
+    }));
+  },
+};
+
+/**
+ * Whether the database has the typed "embedding" column (checked once)
+ * The migration only creates it where the pgvector extension is available
+ */
+function hasPgvector(): Promise<boolean> {
+  if (!pgvectorReady) {
+    pgvectorReady = prisma
+      .$queryRaw<Array<{ ready: boolean }>>`
+        SELECT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema() AND table_name = 'Embedding' AND column_name = 'embedding'
+        ) AS ready
+      `
+      .then(([row]) => {
+        if (!row?.ready) {
+          console.warn('[VectorStore] pgvector is not installed, using the in-memory scan (set VECTOR_STORE=memory)');
+        }
+        return Boolean(row?.ready);
+      })
+      .catch((error) => {
+        // Check again on the next search
+        pgvectorReady = null;
+        throw error;
+      });
+  }
+  return pgvectorReady;
+}
+
+/**
+ * Get the configured vector store (VECTOR_STORE, default 'pgvector')
+ */
+export function getVectorStore(driver: string = cfg.VECTOR_STORE): VectorStore {
+  return driver === 'memory' ? memoryStore : pgvectorStore;
+}
+
+/**
+ * Search the configured store, falling back to the in-memory scan when
+ * pgvector is unavailable (extension not installed: detected once, quietly;
+ * a failing query: logged)
+ */
+export async function searchVectors(query: VectorQuery): Promise<VectorMatch[]> {
+  const store = getVectorStore();
+  if (store.driver === 'pgvector' && !(await hasPgvector())) {
+    return memoryStore.search(query);
+  }
+
+  try {
+    return await store.search(query);
+  } catch (error) {
+    if (store.driver === 'memory') {
+      throw error;
+    }
+    console.error('[VectorStore] pgvector search failed, using in-memory scan:', error);
+    return memoryStore.search(query);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Shared workspaces
+ * Conversations and documents belong to a workspace; its members see them with
+ * a role: owners manage members, editors upload, edit and delete, viewers read
+ * and ask questions. Every account starts with a personal workspace
+ */
+
+import { Prisma } from '@prisma/client';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// Longest workspace name accepted
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * Workspace a user is working in, with their role
+ */
+export interface ActiveWorkspace {
+  id: number;
+  name: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * Parse a role from user input
+ * @returns The role, or null if it is not one
+ */
+export function parseRole(value: unknown): WorkspaceRole | null {
+  return WORKSPACE_ROLES.includes(value as WorkspaceRole) ? (value as WorkspaceRole) : null;
+}
+
+/**
+ * Whether a role grants at least the required one
+ */
+export function hasRole(role: WorkspaceRole | null, required: WorkspaceRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Validate a workspace name
+ * @returns The trimmed name, or an error message
+ */
+export function validateWorkspaceName(value: unknown): { name: string } | { error: string } {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return { error: 'name must be a non-empty string' };
+  }
+  const name = value.trim();
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { name };
+}
+
+/**
+ * Prisma filter for rows in a workspace the user belongs to
+ */
+export function memberOf(userId: number): { workspace: Prisma.WorkspaceWhereInput } {
+  return { workspace: { members: { some: { userId } } } };
+}
+
+/**
+ * A user's role in a workspace
+ * @returns null when the user is not a member
+ */
+export async function getRole(workspaceId: number | null, userId: number): Promise<WorkspaceRole | null> {
+  if (workspaceId === null) {
+    return null;
+  }
+  const member = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  return member ? parseRole(member.role) : null;
+}
+
+/**
+ * A conversation's workspace and the user's role in it
+ * @returns null when the conversation does not exist or the user is not a member
+ *          of its workspace (callers answer 404)
+ */
+export async function getConversationAccess(
+  conversationId: number,
+  userId: number
+): Promise<{ workspaceId: number; role: WorkspaceRole } | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { workspaceId: true },
+  });
+  const role = await getRole(conversation?.workspaceId ?? null, userId);
+  return conversation && role ? { workspaceId: conversation.workspaceId!, role } : null;
+}
+
+/**
+ * A document's workspace and the user's role in it
+ * @returns null when the document does not exist or the user is not a member of its workspace
+ */
+export async function getDocumentAccess(
+  documentId: number,
+  userId: number
+): Promise<{ workspaceId: number; role: WorkspaceRole } | null> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { workspaceId: true },
+  });
+  const role = await getRole(document?.workspaceId ?? null, userId);
+  return document && role ? { workspaceId: document.workspaceId!, role } : null;
+}
+
+/**
+ * Create a workspace with its creator as owner
+ * @param tx - Transaction to create it in (e.g. together with the account)
+ */
+export async function createWorkspace(
+  name: string,
+  userId: number,
+  tx: Prisma.TransactionClient = prisma
+): Promise<ActiveWorkspace> {
+  const workspace = await tx.workspace.create({
+    data: { name, members: { create: { userId, role: 'owner' } } },
+  });
+  return { id: workspace.id, name: workspace.name, role: 'owner' };
+}
+
+/**
+ * Name of a new account's personal workspace
+ */
+export function personalWorkspaceName(user: { email: string; name: string | null }): string {
+  return `${user.name || user.email}'s workspace`;
+}
+
+/**
+ * Workspaces a user belongs to, oldest first
+ */
+export async function listWorkspaces(userId: number): Promise<Array<ActiveWorkspace & { members: number }>> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    orderBy: { workspaceId: 'asc' },
+    select: {
+      role: true,
+      workspace: { select: { id: true, name: true, _count: { select: { members: true } } } },
+    },
+  });
+
+  return memberships.map((m) => ({
+    id: m.workspace.id,
+    name: m.workspace.name,
+    role: parseRole(m.role) ?? 'viewer',
+    members: m.workspace._count.members,
+  }));
+}
+
+/**
+ * Resolve the workspace a session works in
+ * Falls back to the user's first workspace when none was picked or the user
+ * left it, and creates a personal workspace for accounts without any
+ */
+export async function resolveActiveWorkspace(
+  user: { id: number; email: string; name: string | null },
+  preferredId: number | null
+): Promise<ActiveWorkspace> {
+  const workspaces = await listWorkspaces(user.id);
+  const active = workspaces.find((w) => w.id === preferredId) ?? workspaces[0];
+  if (active) {
+    return { id: active.id, name: active.name, role: active.role };
+  }
+  return createWorkspace(personalWorkspaceName(user), user.id);
+}
+
+/**
+ * Number of owners left in a workspace if one member changed role or left
+ */
+export async function remainingOwners(workspaceId: number, exceptUserId: number): Promise<number> {
+  return prisma.workspaceMember.count({
+    where: { workspaceId, role: 'owner', NOT: { userId: exceptUserId } },
+  });
+}
+
+/**
+ * 403 response for members whose role does not allow an action
+ */
+export function forbidden(action: string, required: WorkspaceRole = 'editor'): NextResponse {
+  return NextResponse.json(
+    { error: `${action} requires the ${required} role in this workspace` },
+    { status: 403 }
+  );
+}
@@ -2,7 +2,7 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
-  serverExternalPackages: ['pdf-parse', 'canvas', '@napi-rs/canvas'],
+  serverExternalPackages: ['pdf-parse', 'pdfjs-dist', 'canvas', '@napi-rs/canvas', 'tesseract.js'],
   
   // Performance optimizations
   compress: true, // Enable gzip compression
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "mimeType" TEXT NOT NULL DEFAULT 'application/pdf';
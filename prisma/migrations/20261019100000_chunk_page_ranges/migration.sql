@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Chunk" ADD COLUMN     "pageEnd" INTEGER,
+ADD COLUMN     "pageStart" INTEGER;
+
+-- AlterTable
+ALTER TABLE "MessageSource" ADD COLUMN     "page" INTEGER;
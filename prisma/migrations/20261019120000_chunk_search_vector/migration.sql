@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Chunk" ADD COLUMN     "searchVector" tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce("headingPath", '') || ' ' || "text")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Chunk_searchVector_idx" ON "Chunk" USING GIN ("searchVector");
@@ -0,0 +1,36 @@
+-- AlterTable
+-- Dimension of the JSON vector, computed for existing rows and every new insert
+ALTER TABLE "Embedding" ADD COLUMN     "dimensions" INTEGER
+  GENERATED ALWAYS AS (jsonb_array_length("vector")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Embedding_dimensions_idx" ON "Embedding"("dimensions");
+
+-- pgvector objects, only where the extension can be installed: without it the
+-- migration still applies and VECTOR_STORE=memory ranks embeddings in Node
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+    -- CreateExtension
+    CREATE EXTENSION IF NOT EXISTS "vector";
+
+    -- AlterTable
+    -- Typed copy of the JSON vector
+    ALTER TABLE "Embedding" ADD COLUMN     "embedding" vector
+      GENERATED ALWAYS AS (("vector"::text)::vector) STORED;
+
+    -- CreateIndex
+    -- HNSW needs a fixed dimension, so index each common embedding size separately
+    -- (all-minilm 384, nomic-embed-text 768, voyage 1024, text-embedding-3-small 1536)
+    CREATE INDEX "Embedding_embedding_384_idx" ON "Embedding"
+      USING hnsw (("embedding"::vector(384)) vector_cosine_ops) WHERE "dimensions" = 384;
+    CREATE INDEX "Embedding_embedding_768_idx" ON "Embedding"
+      USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WHERE "dimensions" = 768;
+    CREATE INDEX "Embedding_embedding_1024_idx" ON "Embedding"
+      USING hnsw (("embedding"::vector(1024)) vector_cosine_ops) WHERE "dimensions" = 1024;
+    CREATE INDEX "Embedding_embedding_1536_idx" ON "Embedding"
+      USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "dimensions" = 1536;
+  ELSE
+    RAISE NOTICE 'pgvector is not available: skipping the embedding column and HNSW indexes (use VECTOR_STORE=memory)';
+  END IF;
+END $$;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "IngestJob" (
+    "id" SERIAL NOT NULL,
+    "documentId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "progress" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "chunking" TEXT NOT NULL DEFAULT 'fixed',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "error" TEXT,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestJob_documentId_idx" ON "IngestJob"("documentId");
+
+-- CreateIndex
+CREATE INDEX "IngestJob_status_runAfter_idx" ON "IngestJob"("status", "runAfter");
+
+-- AddForeignKey
+ALTER TABLE "IngestJob" ADD CONSTRAINT "IngestJob_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "MessageSource" ADD COLUMN     "conversationId" INTEGER,
+ADD COLUMN     "conversationTitle" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_tags_idx" ON "Conversation" USING GIN ("tags");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "canonicalId" INTEGER,
+ADD COLUMN     "refCount" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX "Document_contentHash_idx" ON "Document"("contentHash");
+
+-- CreateIndex
+CREATE INDEX "Document_canonicalId_idx" ON "Document"("canonicalId");
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_canonicalId_fkey" FOREIGN KEY ("canonicalId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "ocrPages" JSONB;
+
+-- AlterTable
+ALTER TABLE "IngestJob" ADD COLUMN     "ocr" TEXT NOT NULL DEFAULT 'auto';
@@ -0,0 +1,77 @@
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "id" SERIAL NOT NULL,
+    "workspaceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'editor',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceMember_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "workspaceId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "workspaceId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "workspaceId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceMember_workspaceId_userId_key" ON "WorkspaceMember"("workspaceId", "userId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "Conversation_workspaceId_idx" ON "Conversation"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "Document_workspaceId_idx" ON "Document"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Conversations outlive their creator now that they are shared
+ALTER TABLE "Conversation" DROP CONSTRAINT "Conversation_ownerId_fkey";
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Every existing account gets a personal workspace holding its conversations and documents
+-- (the temporary column maps each new workspace back to its account)
+ALTER TABLE "Workspace" ADD COLUMN "migratedUserId" INTEGER;
+
+INSERT INTO "Workspace" ("name", "migratedUserId")
+SELECT COALESCE(NULLIF("name", ''), "email") || '''s workspace', "id" FROM "User" ORDER BY "id";
+
+INSERT INTO "WorkspaceMember" ("workspaceId", "userId", "role")
+SELECT "id", "migratedUserId", 'owner' FROM "Workspace" WHERE "migratedUserId" IS NOT NULL;
+
+UPDATE "Conversation" c SET "workspaceId" = w."id"
+FROM "Workspace" w WHERE w."migratedUserId" = c."ownerId";
+
+UPDATE "Document" d SET "workspaceId" = w."id"
+FROM "Workspace" w WHERE w."migratedUserId" = d."ownerId";
+
+ALTER TABLE "Workspace" DROP COLUMN "migratedUserId";
@@ -37,8 +37,11 @@ async function importSeed() {
       const conversations = JSON.parse(fs.readFileSync(conversationsPath, 'utf-8'));
       if (conversations.length > 0) {
         // Convert date strings back to Date objects
+        // Workspaces and owners are dropped: the first account created on this database adopts the seed
         const conversationsData = conversations.map(c => ({
           ...c,
+          workspaceId: null,
+          ownerId: null,
           createdAt: new Date(c.createdAt),
           updatedAt: new Date(c.updatedAt),
         }));
@@ -63,6 +66,8 @@ async function importSeed() {
       if (documents.length > 0) {
         const documentsData = documents.map(d => ({
           ...d,
+          workspaceId: null,
+          ownerId: null,
           createdAt: new Date(d.createdAt),
         }));
         
@@ -107,7 +112,8 @@ async function importSeed() {
     if (fs.existsSync(embeddingsPath)) {
       const embeddings = JSON.parse(fs.readFileSync(embeddingsPath, 'utf-8'));
       if (embeddings.length > 0) {
-        const embeddingsData = embeddings.map(e => ({
+        // "dimensions" is generated by the database from the vector
+        const embeddingsData = embeddings.map(({ dimensions, ...e }) => ({
           ...e,
           createdAt: new Date(e.createdAt),
         }));
@@ -0,0 +1,168 @@
+/**
+ * Re-embed documents through the running app (POST /api/reembed)
+ * Run: node scripts/reembed.js --all | --conversation <id> | --document <id>
+ *        [--chunking fixed|structured] [--force] [--url http://localhost:3000] [--no-wait]
+ *
+ * Use after changing PROVIDER_EMBED, the embedding model or CHUNK_STRATEGY.
+ * Only stale documents are rebuilt unless --force is given. The app must be
+ * running (npm run dev / npm start) so its worker can process the jobs.
+ * Signs in with SB_EMAIL and SB_PASSWORD; --all covers the documents of its active workspace.
+ */
+
+const POLL_INTERVAL_MS = 2000;
+
+function parseArgs(argv) {
+  const args = { url: process.env.APP_URL || 'http://localhost:3000', wait: true };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--all':
+        args.all = true;
+        break;
+      case '--conversation':
+        args.conversationId = parseInt(argv[++i], 10);
+        break;
+      case '--document':
+        args.documentId = parseInt(argv[++i], 10);
+        break;
+      case '--chunking':
+        args.chunking = argv[++i];
+        break;
+      case '--force':
+        args.force = true;
+        break;
+      case '--url':
+        args.url = argv[++i];
+        break;
+      case '--no-wait':
+        args.wait = false;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  const scopes = [args.all, args.conversationId !== undefined, args.documentId !== undefined].filter(Boolean);
+  if (scopes.length !== 1) {
+    throw new Error('Pass exactly one of --all, --conversation <id> or --document <id>');
+  }
+  if (Number.isNaN(args.conversationId) || Number.isNaN(args.documentId)) {
+    throw new Error('Conversation and document ids must be numbers');
+  }
+
+  return args;
+}
+
+/**
+ * Sign in and return the session cookie to send with API requests
+ */
+async function signIn(url) {
+  const email = process.env.SB_EMAIL;
+  const password = process.env.SB_PASSWORD;
+  if (!email || !password) {
+    throw new Error('Set SB_EMAIL and SB_PASSWORD to the account whose documents should be re-embedded');
+  }
+
+  const res = await fetch(`${url}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Sign-in failed with status ${res.status}`);
+  }
+
+  const session = res.headers.getSetCookie().find((cookie) => cookie.startsWith('sb_session='));
+  if (!session) {
+    throw new Error('Sign-in did not return a session cookie');
+  }
+  return session.split(';')[0];
+}
+
+async function waitForJobs(url, jobs, cookie) {
+  const pending = new Map(jobs.map((job) => [job.jobId, job]));
+  let failed = 0;
+
+  while (pending.size > 0) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    for (const [jobId, job] of pending) {
+      const res = await fetch(`${url}/api/ingest/${jobId}`, { headers: { Cookie: cookie } });
+      if (!res.ok) continue;
+      const status = await res.json();
+
+      if (status.finished) {
+        pending.delete(jobId);
+        if (status.status === 'done') {
+          console.log(`   ✓ ${status.filename} (document ${job.documentId})`);
+        } else {
+          failed++;
+          console.log(`   ✗ ${status.filename} (document ${job.documentId}): ${status.error}`);
+        }
+      }
+    }
+
+    if (pending.size > 0) {
+      console.log(`   … ${jobs.length - pending.size}/${jobs.length} finished`);
+    }
+  }
+
+  return failed;
+}
+
+async function reembed() {
+  let args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  console.log('🔁 Queueing re-embed...\n');
+
+  try {
+    const cookie = await signIn(args.url);
+    const res = await fetch(`${args.url}/api/reembed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({
+        all: args.all,
+        conversationId: args.conversationId,
+        documentId: args.documentId,
+        chunking: args.chunking,
+        force: args.force,
+      }),
+    });
+    const plan = await res.json();
+
+    if (!res.ok) {
+      throw new Error(plan.error || `Request failed with status ${res.status}`);
+    }
+
+    console.log(`   Model: ${plan.model} (${plan.chunking} chunking)`);
+    console.log(`   Queued: ${plan.queued.length}, up to date: ${plan.upToDate}, already in progress: ${plan.inProgress}\n`);
+
+    if (!args.wait || plan.queued.length === 0) {
+      console.log('✅ Done');
+      return;
+    }
+
+    const failed = await waitForJobs(args.url, plan.queued, cookie);
+    if (failed > 0) {
+      console.error(`\n❌ ${failed} document(s) failed to re-embed`);
+      process.exit(1);
+    }
+    console.log('\n✅ Re-embed completed successfully!');
+  } catch (error) {
+    console.error('❌ Error during re-embed:', error.message || error);
+    console.error('\nTroubleshooting:');
+    console.error(`- Ensure the app is running at ${args.url} (or pass --url)`);
+    console.error('- Check that the embedding provider is reachable');
+    process.exit(1);
+  }
+}
+
+// Run the re-embed
+reembed();